@@ -0,0 +1,33 @@
+/**
+ * Request header listing the scripts already loaded on this page, so the server
+ * can avoid sending them again. Must match the server's header name.
+ */
+const LOADED_SCRIPTS_HEADER = 'X-Loaded-Scripts';
+
+/**
+ * Request header telling the server to respond with a fragment rather than a full
+ * page like it would for a regular navigation. Must match the server's header name.
+ */
+export const FRAGMENT_REQUEST_HEADER = 'X-Fragment-Request';
+
+/**
+ * Response header with the (URI encoded) page title, sent by the server when
+ * responding with only the main content. Must match the server's header name.
+ */
+export const PAGE_TITLE_HEADER = 'X-Page-Title';
+
+/**
+ * Returns request headers which tell the server all the same-origin scripts
+ * already present on the page. Fragments in the response will omit any
+ * `<script />` tags for these.
+ */
+export function loadedScriptsHeaders(): Record<string, string> {
+    const scripts = Array.from(document.querySelectorAll('script[src]')) as HTMLScriptElement[];
+    const paths = new Set(scripts
+        .map((script) => new URL(script.src, location.href))
+        .filter((url) => url.origin === location.origin)
+        .map((url) => url.pathname)
+    );
+
+    return { [LOADED_SCRIPTS_HEADER]: Array.from(paths).join(',') };
+}
@@ -0,0 +1,8 @@
+/**
+ * Whether the given click is a plain primary click which nothing else handled yet.
+ * Modified clicks (such as opening a link in a new tab) are left to the browser.
+ */
+export function isPlainClick(evt: MouseEvent): boolean {
+    if (evt.defaultPrevented || evt.button !== 0) return false;
+    return !evt.ctrlKey && !evt.metaKey && !evt.shiftKey && !evt.altKey;
+}
@@ -1,12 +1,81 @@
+import { SanitizeOptions, Sanitizer } from './sanitizer.js';
+import { adoptSharedStyleSheets } from './shared-styles.js';
+import { clearFragmentMark, markFragment, measureFragment } from './timing.js';
+
+/** Options for parsing an HTML fragment from a network response. */
+export interface FragmentOptions {
+    /**
+     * Cancels parsing the fragment. Reading the response body is stopped and the
+     * returned `Promise` or `AsyncGenerator` rejects with the abort reason.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Sanitizes the fragment with the given options, removing anything which could
+     * run code in the page. Use this for untrusted or cross-origin fragments, which
+     * are otherwise trusted completely, including their scripts. Pass `{}` for the
+     * default allowlists.
+     */
+    sanitize?: SanitizeOptions;
+}
+
+/** Options for preloading the resources of a `Fragment`. */
+export interface PreloadOptions {
+    /**
+     * Maximum time (in milliseconds) to wait for resources. Once elapsed, the returned
+     * `Promise` resolves anyways, so slow resources don't block content forever.
+     */
+    timeout?: number;
+
+    /** Stops waiting for resources and rejects with the abort reason. */
+    signal?: AbortSignal;
+}
+
+/** Default maximum time to wait for a fragment's resources to preload. */
+const DEFAULT_PRELOAD_TIMEOUT_MS = 3_000;
+
 /**
  * Parse a network response as an HTML document fragment, then returns each
  * top-level element.
+ *
+ * @throws {FragmentHttpError} When the response has an error status code.
  */
-export async function parseDomFragment(res: Response):
+export async function parseDomFragment(res: Response, { signal, sanitize }: FragmentOptions = {}):
+        Promise<Fragment<DocumentFragment>> {
+    signal?.throwIfAborted();
+    if (!res.ok) throw await FragmentHttpError.from(res, signal, sanitize);
+
+    return await parseFragmentBody(res, signal, sanitize);
+}
+
+/** Parses the body of the given response into an HTML document fragment. */
+async function parseFragmentBody(res: Response, signal?: AbortSignal, sanitize?: SanitizeOptions):
         Promise<Fragment<DocumentFragment>> {
     // Parse a fully rendered document fragment from the network response.
-    const html = await res.text();
-    const contentType = res.headers.get('Content-Type');
+    const download = markFragment('download', { url: res.url });
+    let html: string;
+    try {
+        html = await readText(res, signal);
+        measureFragment('download', download);
+    } finally {
+        // Only measured if successful, don't leave the mark behind otherwise.
+        clearFragmentMark(download);
+    }
+
+    const parse = markFragment('parse', { url: res.url });
+    try {
+        const frag = parseHtml(html, res.headers.get('Content-Type'));
+        if (sanitize) Sanitizer.from(sanitize).sanitize(frag);
+        measureFragment('parse', parse);
+
+        return fragmentOf(frag, res.url);
+    } finally {
+        clearFragmentMark(parse);
+    }
+}
+
+/** Parses the given HTML of the given content type into a new document fragment. */
+function parseHtml(html: string, contentType: string | null): DocumentFragment {
     if (!contentType) throw new Error('Response has no Content-Type.');
     const simpleContentType = contentType.indexOf(';') === -1
         ? contentType
@@ -27,27 +96,423 @@ export async function parseDomFragment(res: Response):
     // value with no parent `Node`.
     const frag = document.createDocumentFragment();
     frag.append(...doc.body.childNodes);
-    return Fragment.of(frag);
+    return frag;
+}
+
+/** Reads the full body of the given response as text, stopping early if aborted. */
+async function readText(res: Response, signal?: AbortSignal): Promise<string> {
+    if (!res.body) return '';
+
+    let text = '';
+    for await (const chunk of parseText(iterateReader(res.body, signal))) {
+        text += chunk;
+    }
+    return text;
+}
+
+/**
+ * An HTTP response for a fragment failed with an error status code. Includes the
+ * error fragment rendered by the server, which can be displayed to the user.
+ */
+export class FragmentHttpError extends Error {
+    private constructor(
+        public readonly status: number,
+        public readonly fragment: Fragment<DocumentFragment>,
+        message: string,
+    ) {
+        super(message);
+        this.name = 'FragmentHttpError';
+    }
+
+    /**
+     * Creates a `FragmentHttpError` from the given failed response, sanitizing its
+     * fragment with the given options, if any.
+     */
+    public static async from(res: Response, signal?: AbortSignal, sanitize?: SanitizeOptions):
+            Promise<FragmentHttpError> {
+        const fragment = await parseFragmentBody(res, signal, sanitize);
+        const detail = fragment.cloneContent().textContent?.trim();
+        return new FragmentHttpError(res.status, fragment,
+            `HTTP request to ${res.url} failed with status code ${res.status}${
+                detail ? `: ${detail}` : '.'}`);
+    }
 }
 
 /**
  * Stream an HTML fragment from the given response. This returns an `AsyncGenerator` which yields
  * each top-level node in the HTTP response once each node is *completely* parsed.
+ *
+ * The response may also contain placeholder slots (`<stream-slot slot-id="..." />`) whose
+ * content arrives later in the stream, in any order (`<template for-slot="..." />`). Once
+ * slot content is received, it is swapped in place of every clone of the placeholder which
+ * has been inserted into a parent node. Slot content itself is never yielded.
+ *
+ * Records the time to the first top-level node (`fragment:first-node`) and to the end of
+ * the stream (`fragment:stream`) as performance measures when timings are enabled (see
+ * `DEBUG_TIMING_PARAM`). The time to the end of the stream includes any time the
+ * consumer spends between iterations.
+ *
+ * Any network or decoding errors while reading the response are thrown to the consumer.
+ * Aborting the given signal, or returning early from a `for await` loop, stops reading
+ * the response and tears down all the parsing work.
+ *
+ * @throws {FragmentHttpError} When the response has an error status code.
  */
-export async function* streamDomFragment(res: Response):
+export async function* streamDomFragment(res: Response, { signal, sanitize }: FragmentOptions = {}):
         AsyncGenerator<Fragment<Node>, void, void> {
+    signal?.throwIfAborted();
+    if (!res.ok) throw await FragmentHttpError.from(res, signal, sanitize);
+
+    const body = res.body;
+    if (!body) throw new Error(`Failed to get a \`body\` from the \`Response\` object.`);
+
+    // Abort internally when the consumer stops iterating early, not just when the given
+    // signal is aborted, so the response is never left half-read in the background.
+    const controller = new AbortController();
+    const onAbort = () => { controller.abort(signal!.reason); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const start = markFragment('stream', { url: res.url });
+    try {
+        const textStream = parseText(iterateReader(body, controller.signal));
+        let first = true;
+        for await (const fragment of streamingParse(textStream, sanitize && Sanitizer.from(sanitize), res.url)) {
+            if (first) measureFragment('first-node', start);
+            first = false;
+
+            yield fragment;
+        }
+        measureFragment('stream', start);
+    } finally {
+        clearFragmentMark(start);
+        signal?.removeEventListener('abort', onAbort);
+        controller.abort();
+    }
+}
+
+/**
+ * Stream an HTML fragment from the given response directly into the given target,
+ * replacing its existing content. Unlike `streamDomFragment()`, which only yields each
+ * top-level node once it is completely parsed, the parsed tree is attached to the target
+ * *as it is parsed*. So a response which is a single large element (such as a long
+ * thread wrapped in one `<section />`) still renders progressively while downloading.
+ *
+ * `<script />` and `<template />` elements (including DSD) are attached once they are
+ * completely parsed, and fixed up just like `Fragment.cloneContent()` does. Content the
+ * caller adds to the target while streaming may be removed.
+ *
+ * Placeholder slots (`<stream-slot slot-id="..." />`) are filled just like with
+ * `streamDomFragment()`: once their content (`<template for-slot="..." />`) is
+ * completely parsed, it replaces the placeholder. Slot content itself is never attached.
+ *
+ * Aborting the given signal stops reading the response and leaves the target with
+ * whatever content was parsed so far.
+ *
+ * @throws {FragmentHttpError} When the response has an error status code.
+ */
+export async function streamDomFragmentInto(
+    target: Element | DocumentFragment,
+    res: Response,
+    { signal, sanitize }: FragmentOptions = {},
+): Promise<void> {
+    signal?.throwIfAborted();
+    if (!res.ok) throw await FragmentHttpError.from(res, signal, sanitize);
+
     const body = res.body;
     if (!body) throw new Error(`Failed to get a \`body\` from the \`Response\` object.`);
 
-    const textStream = parseText(iterateReader(body));
-    yield* streamingParse(textStream);
+    const mirror = StreamingMirror.into(target, sanitize && Sanitizer.from(sanitize));
+    try {
+        for await (const chunk of parseText(iterateReader(body, signal))) {
+            mirror.write(chunk);
+        }
+    } catch (err) {
+        mirror.abort();
+        throw err;
+    }
+    mirror.close();
 }
 
-/** Stream the top-level nodes from the HTML stream as they are parsed. */
-async function* streamingParse(stream: AsyncGenerator<string, void, void>):
-        AsyncGenerator<Fragment, void, void> {
+/**
+ * Parses streamed HTML into an inert document and mirrors the parsed tree into a live
+ * target as it grows. Each source node maps to a live node in the target, which is
+ * updated from the mutation records of every write.
+ */
+class StreamingMirror {
+    /** Live node for each parsed source node. Incomplete deferred nodes map to a placeholder. */
+    private readonly mirrors = new WeakMap<Node, Node>();
+
+    /** Deferred source nodes whose live node was consumed, such as a stamped DSD template. */
+    private readonly consumed = new WeakSet<Node>();
+
+    /** Deferred source nodes which are still waiting to be completely parsed. */
+    private readonly pending = new Set<Element>();
+
+    private constructor(
+        private readonly doc: Document,
+        private readonly observer: MutationObserver,
+        private readonly sanitizer?: Sanitizer,
+    ) { }
+
+    /**
+     * Starts mirroring a new parse into the given target, dropping anything the given
+     * sanitizer does not allow.
+     */
+    public static into(target: Element | DocumentFragment, sanitizer?: Sanitizer): StreamingMirror {
+        // See `parseAndObserveTopLevelNodeAdditions()` for why this explicitly opens
+        // the document and writes a `<body />`.
+        const doc = document.implementation.createHTMLDocument();
+        doc.open();
+        doc.write('<!DOCTYPE html><html><head></head><body>');
+
+        // Records are read synchronously after each write, so no callback is needed.
+        const observer = new MutationObserver(() => {});
+        observer.observe(doc.body, { childList: true, characterData: true, subtree: true });
+
+        const mirror = new StreamingMirror(doc, observer, sanitizer);
+        target.replaceChildren();
+        mirror.mirrors.set(doc.body, target);
+        return mirror;
+    }
+
+    /** Parses the given chunk of HTML and mirrors the result into the target. */
+    public write(chunk: string): void {
+        this.doc.write(chunk);
+        this.sync();
+    }
+
+    /** Finishes parsing, mirroring everything which remains. */
+    public close(): void {
+        this.doc.close();
+        this.sync();
+        for (const source of this.pending) this.complete(source);
+        this.teardown();
+    }
+
+    /** Stops parsing, leaving the target with whatever was mirrored so far. */
+    public abort(): void {
+        this.doc.close();
+        this.teardown();
+    }
+
+    private teardown(): void {
+        this.observer.disconnect();
+        this.doc.replaceChildren();
+    }
+
+    /** Applies all the changes to the source tree since the last sync to the target. */
+    private sync(): void {
+        const changedParents = new Set<Node>();
+        for (const record of this.observer.takeRecords()) {
+            if (record.type === 'characterData') {
+                const live = this.mirrors.get(record.target);
+                if (live) live.textContent = record.target.textContent;
+            } else {
+                changedParents.add(record.target);
+            }
+        }
+
+        // Records may be stale by now, so reconcile against the current children instead
+        // of replaying each one.
+        for (const parent of changedParents) this.syncChildren(parent);
+
+        // Only nodes on the rightmost edge of the tree can still be receiving content.
+        // Anything else pending is completely parsed.
+        const open = new Set<Node>();
+        for (let node: Node | null = this.doc.body; node; node = node.lastChild) open.add(node);
+        for (const source of this.pending) {
+            if (!open.has(source)) this.complete(source);
+        }
+    }
+
+    /** Updates the children of the live node for the given source node to match it. */
+    private syncChildren(source: Node): void {
+        const live = this.mirrors.get(source);
+        if (!live || isDeferred(source)) return; // Not mirrored (yet) or not mirrored incrementally.
+
+        const desired = Array.from(source.childNodes)
+            .map((child) => this.mirror(child))
+            .filter((child): child is Node => child !== undefined);
+
+        const desiredSet = new Set(desired);
+        for (const child of Array.from(live.childNodes)) {
+            if (!desiredSet.has(child)) child.remove();
+        }
+
+        // Only move nodes which are out of place, moving a node disconnects and
+        // reconnects it.
+        for (const [ index, child ] of desired.entries()) {
+            const current = live.childNodes[index] ?? null;
+            if (current !== child) live.insertBefore(child, current);
+        }
+    }
+
+    /** Returns the live node for the given source node, creating it if necessary. */
+    private mirror(source: Node): Node | undefined {
+        if (this.consumed.has(source)) return undefined;
+
+        const existing = this.mirrors.get(source);
+        if (existing) return existing;
+
+        // Deferred nodes are held back until complete, a placeholder keeps their position.
+        if (isDeferred(source)) {
+            const placeholder = document.createComment('');
+            this.mirrors.set(source, placeholder);
+            this.pending.add(source);
+            return placeholder;
+        }
+
+        // Sanitizing the shallow clone checks just the node itself, its children are
+        // sanitized as they are mirrored.
+        const live = document.importNode(source, false /* deep */);
+        if (this.sanitizer && !this.sanitizer.sanitize(live)) {
+            this.consumed.add(source);
+            return undefined;
+        }
+
+        this.mirrors.set(source, live);
+        this.syncChildren(source);
+        return live;
+    }
+
+    /** Swaps the given completely parsed deferred node in place of its placeholder. */
+    private complete(source: Element): void {
+        this.pending.delete(source);
+        const placeholder = this.mirrors.get(source)!;
+
+        // Slot content is never attached itself, it fills the slot it addresses instead.
+        if (isSlotContent(source)) {
+            placeholder.parentNode?.removeChild(placeholder);
+            this.consumed.add(source);
+            if (!this.sanitizer || this.sanitizer.sanitize(source)) this.fill(source);
+            return;
+        }
+
+        const live = source instanceof HTMLScriptElement
+            ? manualClone(source)
+            : document.importNode(source, true /* deep */);
+        if (this.sanitizer && !this.sanitizer.sanitize(live)) {
+            placeholder.parentNode?.removeChild(placeholder);
+            this.consumed.add(source);
+            return;
+        }
+        if (live instanceof HTMLScriptElement) fixedScriptSet.add(live);
+        this.mirrors.set(source, live);
+        placeholder.parentNode?.replaceChild(live, placeholder);
+
+        // Stamp DSD into its host, which removes the template from the target.
+        const parent = live.parentNode;
+        if (live instanceof HTMLTemplateElement && parseDeclarativeShadowRoot(live)
+                && (parent instanceof Element || parent instanceof DocumentFragment)) {
+            fixupDeclarativeShadowDom(parent);
+            if (!live.parentNode) this.consumed.add(source);
+        }
+    }
+
+    /**
+     * Replaces the addressed slot in the source tree with the given slot content, then
+     * mirrors the result. Its nodes are sanitized as they are mirrored, like any others.
+     */
+    private fill(content: HTMLTemplateElement): void {
+        const id = content.getAttribute('for-slot')!;
+        const slot = Array.from(this.doc.body.querySelectorAll('stream-slot'))
+            .find((slot) => isSlot(slot) && slot.getAttribute('slot-id') === id);
+        if (!slot) throw new Error(`Received content for unknown slot "${id}".`);
+
+        const parent = slot.parentNode!;
+        slot.replaceWith(this.doc.importNode(content.content, true /* deep */));
+        content.remove();
+        this.syncChildren(parent);
+    }
+}
+
+/**
+ * Whether the given node is only mirrored once it is completely parsed. Scripts must
+ * have all their content before executing and templates parse into their `content`,
+ * which isn't observable.
+ */
+function isDeferred(node: Node): node is HTMLScriptElement | HTMLTemplateElement {
+    return node instanceof HTMLScriptElement || node instanceof HTMLTemplateElement;
+}
+
+/**
+ * Stream the top-level nodes from the HTML stream as they are parsed, filling any slots
+ * with their content as it arrives. The given URL of the stream is used for timings.
+ */
+async function* streamingParse(
+    stream: AsyncGenerator<string, void, void>,
+    sanitizer?: Sanitizer,
+    url?: string,
+): AsyncGenerator<Fragment, void, void> {
+    const slots = new SlotRegistry(url);
     for await (const node of dropWhitespaceNodes(streamingParseTopLevelNodes(stream))) {
-        yield Fragment.of(node);
+        // Each node is completely parsed, so it can be sanitized as a whole.
+        if (sanitizer && !sanitizer.sanitize(node)) continue;
+
+        if (isSlotContent(node)) {
+            await slots.fill(node);
+            continue;
+        }
+
+        if (isSlot(node)) {
+            const fragment = fragmentOf(node, url);
+            slots.track(node.getAttribute('slot-id')!, fragment);
+            yield fragment;
+            continue;
+        }
+
+        yield fragmentOf(node, url);
+    }
+}
+
+/** Returns whether the given node is a placeholder slot for content streamed later. */
+function isSlot(node: Node): node is Element {
+    return node instanceof Element
+        && node.tagName === 'STREAM-SLOT'
+        && node.hasAttribute('slot-id');
+}
+
+/** Returns whether the given node holds the streamed content of a previous slot. */
+function isSlotContent(node: Node): node is HTMLTemplateElement {
+    return node instanceof HTMLTemplateElement && node.hasAttribute('for-slot');
+}
+
+/**
+ * Tracks the placeholder slots of a single streamed response, along with every clone of
+ * them made by the consumer, so out of order content can be swapped into each of them.
+ */
+class SlotRegistry {
+    private readonly clones = new Map<string, Element[]>();
+
+    /** Takes the URL of the streamed response, used for timings. */
+    public constructor(private readonly url?: string) { }
+
+    /** Starts tracking the given slot placeholder and any clones made of it. */
+    public track(id: string, fragment: Fragment<Element>): void {
+        this.clones.set(id, []);
+        observeClones(fragment, (clone) => {
+            // Clones of an `Element` are always `Elements` too.
+            if (clone instanceof Element) this.clones.get(id)?.push(clone);
+        });
+    }
+
+    /**
+     * Replaces every clone of the addressed slot with the given content, once its
+     * resources are preloaded so it is never displayed unstyled.
+     */
+    public async fill(content: HTMLTemplateElement): Promise<void> {
+        const id = content.getAttribute('for-slot')!;
+        const clones = this.clones.get(id);
+        if (!clones) throw new Error(`Received content for unknown slot "${id}".`);
+        this.clones.delete(id);
+
+        const template = fragmentOf(content.content, this.url);
+        await template.preloadResources();
+        for (const clone of clones) {
+            // Clones which were never inserted anywhere can't be replaced.
+            if (!clone.parentNode) continue;
+
+            clone.replaceWith(template.cloneContent());
+        }
     }
 }
 
@@ -86,7 +551,7 @@ async function* streamingParseTopLevelNodes(stream: AsyncGenerator<string, void,
  */
 function parseAndObserveTopLevelNodeAdditions(stream: AsyncGenerator<string, void, void>):
         Subscribable<Node> {
-    return (emit) => {
+    return (emit, fail) => {
         // Create an HTML document to stream the HTTP response into.
         const doc = document.implementation.createHTMLDocument();
 
@@ -99,29 +564,47 @@ function parseAndObserveTopLevelNodeAdditions(stream: AsyncGenerator<string, voi
         doc.write('<!DOCTYPE html><html><head></head><body>');
     
         // Observe the document 
-        const obs = new MutationObserver((records) => {
+        const emitAdditions = (records: MutationRecord[]): void => {
             for (const record of records) {
                 for (const added of record.addedNodes) {
                     emit({ value: added, done: false });
                 }
             }
-        });
+        };
+        const obs = new MutationObserver(emitAdditions);
         obs.observe(doc.body, { childList: true });
+
+        // Stop parsing and drop everything parsed so far.
+        const teardown = (): void => {
+            obs.disconnect();
+            doc.close();
+            doc.replaceChildren();
+        };
     
         // Asynchronously consume the rest of the stream.
         let canceled = false;
         (async () => {
             try {
                 for await (const chunk of stream) {
-                    if (canceled) break;
+                    if (canceled) {
+                        teardown();
+                        return;
+                    }
                     doc.write(chunk);
                 }
-            } finally {
-                // Input fully processed, stop observing and complete the stream.
-                doc.close();
-                obs.disconnect();
-                emit({ value: undefined, done: true });
+            } catch (err) {
+                // Network or decoding error (or aborted), propagate it to the consumer.
+                teardown();
+                fail(err);
+                return;
             }
+
+            // Input fully processed, emit any pending additions, stop observing and
+            // complete the stream.
+            doc.close();
+            emitAdditions(obs.takeRecords());
+            obs.disconnect();
+            emit({ value: undefined, done: true });
         })();
     
         return () => { canceled = true; }
@@ -137,29 +620,51 @@ async function* dropWhitespaceNodes(nodes: AsyncIterableIterator<Node>):
     }
 }
 
-/** Parses the given stream of binary data and converts it into a stream of UTF-8 text. */
+/**
+ * Parses the given stream of binary data and converts it into a stream of UTF-8 text.
+ * Throws if the data is not valid UTF-8.
+ */
 async function* parseText(stream: AsyncGenerator<Uint8Array, void, void>):
         AsyncGenerator<string, void, void> {
-    const decoder = new TextDecoder();
+    const decoder = new TextDecoder('utf-8', { fatal: true });
     for await (const chunk of stream) {
         yield decoder.decode(chunk, { stream: true })
     }
+
+    // Flush the decoder, which throws if the stream ended mid-character.
+    const remaining = decoder.decode();
+    if (remaining) yield remaining;
 }
 
-/** Converts the given `ReadableStream` into an `AsyncGenerator`. */
-async function* iterateReader<T>(stream: ReadableStream<T>): AsyncGenerator<T, void, void> {
+/**
+ * Converts the given `ReadableStream` into an `AsyncGenerator`. Aborting the given signal
+ * cancels the stream and throws the abort reason.
+ */
+async function* iterateReader<T>(stream: ReadableStream<T>, signal?: AbortSignal):
+        AsyncGenerator<T, void, void> {
     const reader = stream.getReader();
 
+    // Cancelling the reader resolves any pending `read()`, so an abort takes effect
+    // immediately rather than waiting for the next chunk.
+    const onAbort = () => { reader.cancel(signal!.reason).catch(() => {}); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     let readDone = false;
     try {
         do {
+            signal?.throwIfAborted();
             const { value, done } = await reader.read();
+            signal?.throwIfAborted();
             readDone = done;
             if (!value) continue;
 
             yield value;
         } while (!readDone);
     } finally {
+        signal?.removeEventListener('abort', onAbort);
+
+        // Stopped early, cancel the stream so it isn't left half-read.
+        if (!readDone) await reader.cancel().catch(() => {});
         reader.releaseLock();
     }
 }
@@ -182,20 +687,32 @@ export class Fragment<T extends Node = Node> {
      * Semantically, this is very similar to `document.importNode()` plus the DSD and
      * `<script />` hacks. This helps automatically handle cases where users might
      * otherwise forget to call `document.importNode()` or `customElements.upgrade()`.
+     *
+     * Records the time spent importing (`fragment:import`) and fixing up
+     * (`fragment:fixup`) the clone as performance measures when timings are enabled.
      */
     public cloneContent(): T {
+        const detail = { url: fragmentUrls.get(this) };
+        const importing = markFragment('import', detail);
+
         // Streamed elements are placed into a new document, which seems to be considered
         // "inert" and thus does not upgrade the components when attached (like template
         // contents, even though these elements do not come from a template). So we need
         // to adopt the node into the user's document and manually upgrade the elements.
         // https://github.com/WICG/webcomponents/issues/946#issuecomment-999322180
         const clone = document.importNode(this.node, true /* deep */);
+        copyShadowRoots(this.node, clone);
+        measureFragment('import', importing);
 
         // Apply hacks to fix DSD and `<script />` tags in the HTML fragment.
+        const fixup = markFragment('fixup', detail);
         if (clone instanceof Element || clone instanceof DocumentFragment) {
             fixupDeclarativeShadowDom(clone);
             fixupScripts(clone);
         }
+        measureFragment('fixup', fixup);
+
+        cloneObservers.get(this)?.(clone);
 
         return clone;
     }
@@ -281,28 +798,244 @@ export class Fragment<T extends Node = Node> {
             })
         );
     }
+
+    /**
+     * Preloads the stylesheets, fonts and images used anywhere in the fragment,
+     * including inside DSD templates, and resolves once they have all loaded (or
+     * failed to load). Inserting the content afterwards renders it fully styled,
+     * rather than flashing unstyled content while a shadow root's `<link />` loads.
+     *
+     * Resolves after `timeout` even if resources are still loading.
+     *
+     * ```typescript
+     * const fragment = await parseDomFragment(res);
+     * await fragment.preloadResources();
+     * document.body.append(fragment.cloneContent()); // Already styled.
+     * ```
+     */
+    public async preloadResources({ timeout = DEFAULT_PRELOAD_TIMEOUT_MS, signal }: PreloadOptions = {}):
+            Promise<void> {
+        signal?.throwIfAborted();
+
+        const loaded = Promise.all(findResources(this.node).map((resource) => preload(resource)));
+        let timer: number | undefined;
+        let onAbort: (() => void) | undefined;
+        try {
+            await Promise.race([
+                loaded,
+                new Promise<void>((resolve) => { timer = window.setTimeout(resolve, timeout); }),
+                new Promise<void>((_resolve, reject) => {
+                    onAbort = () => { reject(signal!.reason); };
+                    signal?.addEventListener('abort', onAbort, { once: true });
+                }),
+            ]);
+        } finally {
+            clearTimeout(timer);
+            if (onAbort) signal?.removeEventListener('abort', onAbort);
+        }
+    }
+}
+
+/** A subresource of a fragment which affects how it renders. */
+interface Resource {
+    href: string;
+    as: 'style' | 'font' | 'image';
+}
+
+/** Preloads which were already started, keyed by type and URL, so each is only requested once. */
+const preloads = new Map<string, Promise<void>>();
+
+/** Finds all the stylesheets, fonts and images in the given node, including inside templates. */
+function findResources(node: Node): Resource[] {
+    const resources: Resource[] = [];
+    for (const el of descendantsIncludingTemplates(node)) {
+        const href = el.getAttribute('href');
+        if (el instanceof HTMLLinkElement && href) {
+            const rel = el.relList;
+            if (rel.contains('stylesheet')) {
+                resources.push({ href, as: 'style' });
+            } else if (rel.contains('preload') && el.getAttribute('as') === 'font') {
+                resources.push({ href, as: 'font' });
+            }
+        }
+
+        const src = el.getAttribute('src');
+        if (el instanceof HTMLImageElement && src) resources.push({ href: src, as: 'image' });
+    }
+    return resources;
+}
+
+/** Returns all the elements in the given node, descending into the content of templates. */
+function descendantsIncludingTemplates(node: Node): Element[] {
+    if (!(node instanceof Element || node instanceof DocumentFragment)) return [];
+
+    return elementsOf(node).flatMap((el) => el instanceof HTMLTemplateElement
+        ? [ el, ...descendantsIncludingTemplates(el.content) ]
+        : [ el ]);
+}
+
+/**
+ * Preloads the given resource into the browser's cache. Resolves once loaded, or
+ * even if it fails to load, since rendering should not be blocked by a broken resource.
+ */
+function preload({ href, as }: Resource): Promise<void> {
+    // Resolve against the current document, the fragment may come from a different one.
+    const url = new URL(href, document.baseURI).href;
+    const key = `${as}:${url}`;
+    const existing = preloads.get(key);
+    if (existing) return existing;
+
+    const loaded = as === 'image' ? preloadImage(url) : preloadLink(url, as);
+    preloads.set(key, loaded);
+    return loaded;
+}
+
+function preloadImage(url: string): Promise<void> {
+    const img = new Image();
+    img.src = url;
+    return img.decode().catch(() => {});
+}
+
+function preloadLink(url: string, as: 'style' | 'font'): Promise<void> {
+    return new Promise((resolve) => {
+        const link = document.createElement('link');
+        link.rel = 'preload';
+        link.as = as;
+        link.href = url;
+
+        // Fonts are always fetched with CORS, the preload must match to be reused.
+        if (as === 'font') link.crossOrigin = 'anonymous';
+
+        link.addEventListener('load', () => { resolve(); }, { once: true });
+        link.addEventListener('error', () => { resolve(); }, { once: true });
+        document.head.append(link);
+    });
+}
+
+/** URL of the response each `Fragment` was parsed from, used for timings. */
+const fragmentUrls = new WeakMap<Fragment<Node>, string>();
+
+/** Creates a `Fragment` of the given node parsed from the response at the given URL. */
+function fragmentOf<T extends Node>(node: T, url?: string): Fragment<T> {
+    const fragment = Fragment.of(node);
+    if (url) fragmentUrls.set(fragment, url);
+    return fragment;
+}
+
+/** Callbacks invoked with every clone of the associated `Fragment`. */
+const cloneObservers = new WeakMap<Fragment<Node>, (clone: Node) => void>();
+
+/** Invokes the given callback with every subsequent clone of the given `Fragment`. */
+function observeClones(fragment: Fragment<Node>, observer: (clone: Node) => void): void {
+    cloneObservers.set(fragment, observer);
+}
+
+/**
+ * Copies any shadow roots in the given source tree to the matching elements of its
+ * clone. If the parser already handled DSD in the source, the templates are gone and
+ * cloning drops the shadow roots (unless they are `clonable`), so this reuses those
+ * shadow roots rather than losing them.
+ */
+function copyShadowRoots(source: Node, clone: Node): void {
+    // The clone was just made, so its elements line up exactly with the source's.
+    const sourceElements = elementsOf(source);
+    const cloneElements = elementsOf(clone);
+    for (const [ index, el ] of sourceElements.entries()) {
+        const shadowRoot = el.shadowRoot;
+        const target = cloneElements[index]!;
+        if (!shadowRoot || target.shadowRoot) continue; // Nothing to copy or already cloned.
+
+        const targetRoot = target.attachShadow({
+            mode: shadowRoot.mode,
+            delegatesFocus: shadowRoot.delegatesFocus,
+            slotAssignment: shadowRoot.slotAssignment,
+        });
+        for (const child of shadowRoot.childNodes) {
+            const childClone = document.importNode(child, true /* deep */);
+            copyShadowRoots(child, childClone);
+            targetRoot.appendChild(childClone);
+        }
+        adoptSharedStyleSheets(targetRoot);
+    }
+}
+
+/** Returns the given node (if it is an element) and all its descendant elements. */
+function elementsOf(node: Node): Element[] {
+    if (!(node instanceof Element || node instanceof DocumentFragment)) return [];
+
+    const descendants = Array.from(node.querySelectorAll('*'));
+    return node instanceof Element ? [ node, ...descendants ] : descendants;
+}
+
+/**
+ * `ShadowRootInit` with options newer than the TypeScript DOM typings.
+ * @link https://developer.mozilla.org/en-US/docs/Web/API/Element/attachShadow#clonable
+ */
+interface DeclarativeShadowRootInit extends ShadowRootInit {
+    clonable?: boolean;
 }
 
-/** Applies any DSD templates in the given root element. */
+/**
+ * Applies any DSD templates in the given root element, including DSD nested inside
+ * other DSD templates.
+ */
 function fixupDeclarativeShadowDom(root: Element | DocumentFragment): void {
-    // DSD not handled by the parser will leave `<template shadowroot="..." />` nodes
-    // in the DOM. Find these nodes, stamp them, and attach that content to the
+    // DSD not handled by the parser will leave `<template shadowrootmode="..." />`
+    // nodes in the DOM. Find these nodes, stamp them, and attach that content to the
     // parent's shadow root just like the parser would normally do.
-    const templates = Array.from(root.querySelectorAll('template[shadowroot]')) as HTMLTemplateElement[];
+    const templates = Array.from(root.querySelectorAll('template')) as HTMLTemplateElement[];
     for (const template of templates) {
-        const mode = template.getAttribute('shadowroot');
-        if (!mode) continue; // Regular `<template />` tag, not DSD.
-    
-        // Clone the template, apply it to the parent's shadow root, and remove the template.
-        const shadowRoot = template.parentElement!.attachShadow({
-            mode: mode as ShadowRootMode,
-        });
-        const contents = template.content.cloneNode(true /* deep */);
-        shadowRoot.appendChild(contents);
+        const init = parseDeclarativeShadowRoot(template);
+        if (!init) continue; // Regular `<template />` tag, not DSD.
+        const host = template.parentElement;
+        if (!host) continue;
+
+        // Nested DSD lives in the template's content, which the query above does
+        // not see. The parser attaches inner shadow roots before their outer ones
+        // (each template closes before its parent), so stamp the content first.
+        const content = document.importNode(template.content, true /* deep */);
+        fixupDeclarativeShadowDom(content);
         template.remove();
+
+        // Reuse a shadow root the host already has, such as one the parser already
+        // attached from this template or one cloned with `shadowrootclonable`, since
+        // attaching a second shadow root throws. Only fill it if it is still empty.
+        const existing = host.shadowRoot;
+        if (existing) {
+            if (existing.childNodes.length === 0) {
+                existing.appendChild(content);
+                adoptSharedStyleSheets(existing);
+            }
+            continue;
+        }
+
+        const shadowRoot = host.attachShadow(init);
+        shadowRoot.appendChild(content);
+
+        // Many shadow roots link the same stylesheets, share a single copy between them.
+        adoptSharedStyleSheets(shadowRoot);
     }
 }
 
+/**
+ * Parses the shadow root options declared by the given DSD template, or returns
+ * `undefined` if it is a regular template. Supports both the standard
+ * `shadowrootmode` attribute and the legacy `shadowroot` attribute.
+ */
+function parseDeclarativeShadowRoot(template: HTMLTemplateElement):
+        DeclarativeShadowRootInit | undefined {
+    const mode = template.getAttribute('shadowrootmode') ?? template.getAttribute('shadowroot');
+
+    // Like the parser, treat an invalid mode as a regular template.
+    if (mode !== 'open' && mode !== 'closed') return undefined;
+
+    return {
+        mode,
+        delegatesFocus: template.hasAttribute('shadowrootdelegatesfocus'),
+        clonable: template.hasAttribute('shadowrootclonable'),
+    };
+}
+
 /**
  * A weak set of all fixed `HTMLScriptElements` so we don't try to fix them again
  * and lead to infinite recursion.
@@ -356,53 +1089,92 @@ function manualClone(oldScript: HTMLScriptElement): HTMLScriptElement {
 /**
  * Simplistic implementation of a `Subscribable`, where it is simply a function which takes a subscriber
  * (`emit` function) and calls it with an `IteratorResult` when a value is given or the stream completes.
+ * The `fail` function is called instead if the stream errors, after which nothing else is emitted.
  * Also returns a function which can be called to cancel the stream and stop subscribing to it.
  */
-type Subscribable<T> = (emit: (value: IteratorResult<T, void>) => void) => Cancel;
+type Subscribable<T> = (
+    emit: (value: IteratorResult<T, void>) => void,
+    fail: (err: unknown) => void,
+) => Cancel;
 type Cancel = () => void;
 
+/** A value or error emitted by a `Subscribable`, but not yet polled by the iterator. */
+type Settled<T> = { result: IteratorResult<T, void> } | { error: unknown };
+
 /**
  * Converts a `Subscribable<T>` into an `AsyncIterableIterator<T>`. The main purpose of this function is
  * to convert a callback based async iterator API (like `MutationObserver`) into something which can be
  * `for await`-ed.
  */
 function convertSubscribableToIterator<T>(subscribable: Subscribable<T>): AsyncIterableIterator<T> {
-    let pendingResolve: ((result: IteratorResult<T, void>) => void) | undefined;
-    const resultQueue: IteratorResult<T, void>[] = [];
-
-    // Called when the underlying `Subscribable` emits a value.
-    function emit(value: IteratorResult<T, void>): void {
-        if (pendingResolve) {
-            // Returned iterator has already been polled and is awaiting a value, resolve it.
-            pendingResolve(value);
-            pendingResolve = undefined;
+    let pending: { resolve: (result: IteratorResult<T, void>) => void, reject: (err: unknown) => void }
+        | undefined;
+    const settledQueue: Settled<T>[] = [];
+
+    // Whether the iterator has completed, errored, or been stopped by the caller. Nothing
+    // else is accepted from the underlying `Subscribable` afterwards.
+    let closed = false;
+
+    // Called when the underlying `Subscribable` emits a value, completes, or errors.
+    function settle(settled: Settled<T>): void {
+        if (closed) return;
+        if ('error' in settled || settled.result.done) closed = true;
+
+        if (pending) {
+            // Returned iterator has already been polled and is awaiting a value, settle it.
+            if ('error' in settled) {
+                pending.reject(settled.error);
+            } else {
+                pending.resolve(settled.result);
+            }
+            pending = undefined;
         } else {
             // Returned iterator is waiting to be polled, queue the result instead.
-            resultQueue.push(value);
+            settledQueue.push(settled);
         }
     }
 
     // Invoke the underlying `Subscribable`.
-    const cancel = subscribable(emit);
+    const cancel = subscribable(
+        (result) => { settle({ result }); },
+        (error) => { settle({ error }); },
+    );
+
+    // Called when the caller stops iterating early, drops anything not yet polled.
+    function stop(): void {
+        closed = true;
+        settledQueue.splice(0);
+        pending?.resolve({ value: undefined, done: true });
+        pending = undefined;
+        cancel();
+    }
 
     return {
         // Caller invokes this function to poll the iterator.
         next(): Promise<IteratorResult<T, void>> {
             // If there are values in the queue, return the first one.
-            if (resultQueue.length > 0) return Promise.resolve(resultQueue.shift()!);
+            const settled = settledQueue.shift();
+            if (settled) {
+                return 'error' in settled
+                    ? Promise.reject(settled.error)
+                    : Promise.resolve(settled.result);
+            }
+
+            // Nothing left in the queue and nothing more coming.
+            if (closed) return Promise.resolve({ value: undefined, done: true });
 
             // Nothing in the queue, wait for the next value to arrive.
-            return new Promise((resolve) => { pendingResolve = resolve; });
+            return new Promise((resolve, reject) => { pending = { resolve, reject }; });
         },
 
         async return(): Promise<IteratorResult<T, void>> {
-            cancel();
+            stop();
             return { value: undefined, done: true };
         },
 
-        async throw(): Promise<IteratorResult<T, void>> {
-            cancel();
-            return { value: undefined, done: true };
+        async throw(err: unknown): Promise<IteratorResult<T, void>> {
+            stop();
+            throw err;
         },
 
         [Symbol.asyncIterator]() {
@@ -1,43 +1,174 @@
-import { parseDomFragment } from './dom.js';
+import './fx.js';
+import { FRAGMENT_REQUEST_HEADER, loadedScriptsHeaders } from './assets.js';
+import { FragmentHttpError, parseDomFragment } from './dom.js';
+import { invalidateCachedFragment } from './fragment-cache.js';
+import { FxSwapDetail } from './fx.js';
+
+/** Message displayed when saving fails without a more specific error from the server. */
+const GENERIC_SAVE_ERROR = 'Failed to save the tweet, please try again.';
 
 /**
  * An editable tweet which saves to the server and re-renders with the server's
  * response.
+ *
+ * The server renders a regular `<form />` which works without JavaScript. This
+ * intercepts the submission (including pressing Enter in the input) and saves in
+ * place instead of navigating the page. While saving, the controls are disabled
+ * and the new content is previewed optimistically. If saving fails, the form is
+ * restored with the user's content and an inline error message so they can retry.
+ *
+ * Cancel (or Escape) swaps the original tweet back in through the `fx` runtime.
+ * Focus follows the swaps, so keyboard users stay on the tweet they are editing.
  */
- export class MyEditableTweet extends HTMLElement {
-    public tweetId!: number;
-    public content!: string;
+export class MyEditableTweet extends HTMLElement {
+    private saving = false;
 
     protected connectedCallback(): void {
-        this.input.value = this.content;
-        this.saveBtn.addEventListener('click', this.onSave);
+        const shadowRoot = this.shadowRoot!;
+        shadowRoot.addEventListener('submit', this.onSubmit);
+        shadowRoot.addEventListener('keydown', this.onKeyDown);
+
+        // Block the `fx` runtime from canceling while a save is in flight.
+        shadowRoot.addEventListener('click', this.onClick, { capture: true });
+
+        // Start typing right away.
+        this.contentInput.focus();
     }
 
     protected disconnectedCallback(): void {
-        this.saveBtn.removeEventListener('click', this.onSave);
+        const shadowRoot = this.shadowRoot!;
+        shadowRoot.removeEventListener('submit', this.onSubmit);
+        shadowRoot.removeEventListener('keydown', this.onKeyDown);
+        shadowRoot.removeEventListener('click', this.onClick, { capture: true });
     }
 
-    private onSave = (async () => {
-        // Save the edit to the server, and swap out this element with the new
-        // content returned by the server.
-        const url = `/tweet/edit?id=${this.tweetId}&content=${encodeURIComponent(this.input.value)}`;
-        const res = await fetch(url, { method: 'POST' });
-        if (res.status >= 400) throw new Error(`HTTP request failed with status code: ${res.status}.`);
-        const tweetElTemplate = await parseDomFragment(res);
-        this.replaceWith(tweetElTemplate.cloneContent());
+    private onSubmit = (async (evt: Event): Promise<void> => {
+        evt.preventDefault();
+        if (this.saving) return;
+
+        // Read the form before disabling it, disabled controls are not submitted.
+        const body = new URLSearchParams();
+        for (const [ name, value ] of new FormData(this.form)) {
+            if (typeof value === 'string') body.append(name, value);
+        }
+
+        this.setSaving(true);
+        let updated: DocumentFragment;
+        try {
+            const res = await fetch(this.form.action, {
+                method: 'POST',
+                headers: {
+                    ...loadedScriptsHeaders(),
+                    [FRAGMENT_REQUEST_HEADER]: 'true',
+                },
+                body,
+            });
+            updated = (await parseDomFragment(res)).cloneContent();
+        } catch (err) {
+            // Roll back to editing, keeping the user's content so they can retry.
+            this.setSaving(false);
+            this.showError(err);
+            this.contentInput.focus();
+            return;
+        }
+
+        // The cached copy of this tweet is now out of date.
+        invalidateCachedFragment(`/tweet?id=${body.get('id')}`);
+
+        const tweet = updated.querySelector('my-tweet');
+        this.replaceWith(updated);
+        tweet?.focus();
     }).bind(this);
 
-    private get input(): HTMLInputElement {
-        return this.shadowRoot!.querySelector('input')!;
+    private onKeyDown = ((evt: Event): void => {
+        if (!(evt instanceof KeyboardEvent) || evt.key !== 'Escape') return;
+
+        evt.preventDefault();
+        this.cancelLink?.click();
+    }).bind(this);
+
+    private onClick = ((evt: Event): void => {
+        if (!this.saving || !evt.composedPath().includes(this.cancelLink!)) return;
+
+        evt.preventDefault();
+        evt.stopPropagation();
+    }).bind(this);
+
+    /** Toggles the pending state, previewing the new content while saving. */
+    private setSaving(saving: boolean): void {
+        this.saving = saving;
+        if (saving) {
+            this.setAttribute('aria-busy', 'true');
+        } else {
+            this.removeAttribute('aria-busy');
+        }
+
+        for (const control of this.form.querySelectorAll('input, button')) {
+            (control as HTMLInputElement | HTMLButtonElement).disabled = saving;
+        }
+        if (saving) {
+            this.cancelLink?.setAttribute('aria-disabled', 'true');
+        } else {
+            this.cancelLink?.removeAttribute('aria-disabled');
+        }
+
+        this.preview.textContent = saving ? this.contentInput.value : '';
+        this.preview.hidden = !saving;
+        this.contentInput.hidden = saving;
+        if (saving) this.hideError();
     }
 
-    private get saveBtn(): HTMLButtonElement {
-        return this.shadowRoot!.querySelector('button')!;
+    /** Displays the given error inline, preferring the server's rendered message. */
+    private showError(err: unknown): void {
+        if (err instanceof FragmentHttpError) {
+            this.errorMessage.replaceChildren(err.fragment.cloneContent());
+        } else {
+            this.errorMessage.textContent = GENERIC_SAVE_ERROR;
+        }
+        this.errorMessage.hidden = false;
+    }
+
+    private hideError(): void {
+        this.errorMessage.replaceChildren();
+        this.errorMessage.hidden = true;
+    }
+
+    private get form(): HTMLFormElement {
+        return this.shadowRoot!.querySelector('form')!;
+    }
+
+    private get contentInput(): HTMLInputElement {
+        return this.shadowRoot!.querySelector('input[name="content"]')!;
+    }
+
+    private get preview(): HTMLElement {
+        return this.shadowRoot!.querySelector('.preview')!;
+    }
+
+    private get errorMessage(): HTMLElement {
+        return this.shadowRoot!.querySelector('.error')!;
+    }
+
+    /** Link back to the original tweet, absent when editing a blank tweet. */
+    private get cancelLink(): HTMLAnchorElement | null {
+        return this.shadowRoot!.querySelector('a[fx-get]');
     }
 }
 
 customElements.define('my-editable-tweet', MyEditableTweet);
 
+// Once canceled, return focus to the restored tweet. The editable tweet is already
+// disconnected by the time the swap completes, so this can't be its own listener.
+document.addEventListener('fx-swap', (evt) => {
+    const { trigger, inserted } = (evt as CustomEvent<FxSwapDetail>).detail;
+    const root = trigger.getRootNode();
+    if (!(root instanceof ShadowRoot) || !(root.host instanceof MyEditableTweet)) return;
+
+    const tweet = inserted.find((node): node is HTMLElement =>
+        node instanceof HTMLElement && node.tagName === 'MY-TWEET');
+    tweet?.focus();
+});
+
 declare global {
     interface HTMLElementTagNameMap {
         'my-editable-tweet': MyEditableTweet;
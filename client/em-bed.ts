@@ -1,23 +1,196 @@
-import { parseDomFragment } from './dom.js';
+import { FragmentHttpError, FragmentOptions, parseDomFragment, streamDomFragmentInto } from './dom.js';
 
+/** How close to the viewport a lazy `<em-bed />` gets before it starts loading. */
+const LAZY_ROOT_MARGIN = '200px';
+
+/**
+ * Shadow DOM which displays the loaded content (default slot), or the slotted
+ * `loading` or `fallback` content while pending or after failing.
+ */
+const shadowTemplate = document.createElement('template');
+shadowTemplate.innerHTML = `
+<style>
+    slot[hidden] { display: none; }
+</style>
+<slot name="loading"></slot>
+<slot name="fallback" hidden></slot>
+<slot></slot>
+`.trim();
+
+/** Current status of loading the `src` of an `<em-bed />`. */
+type EmbedState = 'loading' | 'loaded' | 'error';
+
+/** When an `<em-bed />` sanitizes its content. */
+type SanitizeMode = 'auto' | 'always' | 'never';
+
+/**
+ * Embeds the HTML fragment at `src` into the page. Re-fetches whenever `src`
+ * changes.
+ *
+ * Attributes:
+ * *   `src`: URL of the fragment to embed. Required.
+ * *   `loading="lazy"`: Waits to fetch `src` until the element is near the viewport.
+ * *   `stream`: Renders the fragment progressively as it is parsed, even partway
+ *     through an element, rather than waiting for the whole response. Streamed
+ *     content is displayed as soon as the response starts.
+ * *   `sanitize`: Whether to sanitize the fragment with the default allowlists,
+ *     removing anything which could run code in the page. One of `auto` (default)
+ *     to only sanitize cross-origin fragments (after following redirects),
+ *     `always` or `never`.
+ *
+ * Unless streamed, content is only displayed once its stylesheets, fonts and images
+ * have loaded, so it never flashes unstyled. Content in the `loading` slot is displayed while the
+ * fetch is pending, and content in the `fallback` slot is displayed if it fails.
+ * Dispatches a `load` event once the content is fully rendered, or an `error`
+ * event with the error as its `detail` if it fails.
+ */
 class Embed extends HTMLElement {
-    private loaded = false;
+    public static get observedAttributes(): string[] {
+        return [ 'src' ];
+    }
+
+    /** The `src` which is currently loaded (or loading). */
+    private loadedSrc?: string;
+    private loadController?: AbortController;
+    private visibilityObserver?: IntersectionObserver;
+
+    public constructor() {
+        super();
+        this.attachShadow({ mode: 'open' }).appendChild(shadowTemplate.content.cloneNode(true));
+    }
 
     public connectedCallback(): void {
-        if (this.loaded) return;
+        this.update();
+    }
 
+    public disconnectedCallback(): void {
+        // A lazy element can't become visible while detached, start over when reattached.
+        this.visibilityObserver?.disconnect();
+        this.visibilityObserver = undefined;
+    }
+
+    public attributeChangedCallback(_name: string, oldValue: string | null, newValue: string | null):
+            void {
+        if (oldValue === newValue || !this.isConnected) return;
+        this.update();
+    }
+
+    /** Loads the current `src`, unless it is already loaded. */
+    private update(): void {
         const src = this.getAttribute('src');
         if (!src) throw new Error(`<em-bed /> requires a \`src\` attribute.`);
 
-        // Mark the component has loaded to avoid double-requesting the `src`
-        // if this element is detached and reattached to the DOM.
-        this.loaded = true;
-        (async () => {
-            const res = await fetch(src);
-            const template = await parseDomFragment(res);
-            this.appendChild(template.cloneContent());
-        })();
+        // Avoid double-requesting the `src` if this element is detached and
+        // reattached to the DOM.
+        if (src === this.loadedSrc) return;
+
+        if (this.getAttribute('loading') === 'lazy') {
+            this.loadWhenVisible();
+        } else {
+            this.load(src);
+        }
+    }
+
+    /** Loads the `src` once this element gets close to the viewport. */
+    private loadWhenVisible(): void {
+        this.visibilityObserver?.disconnect();
+        this.visibilityObserver = new IntersectionObserver((entries) => {
+            if (!entries.some((entry) => entry.isIntersecting)) return;
+
+            this.visibilityObserver?.disconnect();
+            this.visibilityObserver = undefined;
+            this.load(this.getAttribute('src')!);
+        }, { rootMargin: LAZY_ROOT_MARGIN });
+        this.visibilityObserver.observe(this);
+    }
+
+    private async load(src: string): Promise<void> {
+        // Cancel any previous load, its `src` is out of date.
+        this.loadController?.abort();
+        const controller = new AbortController();
+        this.loadController = controller;
+        this.loadedSrc = src;
+
+        this.clearContent();
+        this.setState('loading');
+
+        try {
+            // Decide from the final URL, a same-origin `src` may redirect to another origin.
+            const res = await fetch(src, { signal: controller.signal });
+            const options: FragmentOptions = {
+                signal: controller.signal,
+                sanitize: this.shouldSanitize(res.url || src) ? {} : undefined,
+            };
+            if (this.hasAttribute('stream')) {
+                // Stream into a wrapper, so the slotted `loading` and `fallback` content is
+                // left alone.
+                const content = document.createElement('div');
+                content.style.display = 'contents';
+                this.appendChild(content);
+                if (res.ok) this.setState('loaded');
+                await streamDomFragmentInto(content, res, options);
+            } else {
+                const template = await parseDomFragment(res, options);
+                await template.preloadResources({ signal: controller.signal });
+                this.appendChild(template.cloneContent());
+            }
+        } catch (err) {
+            // Superseded by a newer load, which is now responsible for this element.
+            if (controller.signal.aborted) return;
+
+            // Display the server's error fragment, unless the page provided its own fallback.
+            if (err instanceof FragmentHttpError && !this.querySelector(':scope > [slot="fallback"]')) {
+                this.appendChild(err.fragment.cloneContent());
+            }
+
+            // Allow retrying when reattached.
+            this.loadedSrc = undefined;
+            this.setState('error');
+            this.dispatchEvent(new CustomEvent('error', { detail: err }));
+            return;
+        }
+
+        this.setState('loaded');
+        this.dispatchEvent(new Event('load'));
+    }
+
+    /**
+     * Whether content from the given URL should be sanitized. Cross-origin content
+     * could otherwise run arbitrary code in this page.
+     */
+    private shouldSanitize(url: string): boolean {
+        const mode = parseSanitizeMode(this.getAttribute('sanitize'));
+        switch (mode) {
+            case 'always': return true;
+            case 'never': return false;
+            case 'auto': return new URL(url, location.href).origin !== location.origin;
+        }
+    }
+
+    /** Removes any previously loaded content, leaving slotted `loading` and `fallback` content. */
+    private clearContent(): void {
+        for (const child of Array.from(this.childNodes)) {
+            if (child instanceof Element && child.hasAttribute('slot')) continue;
+            child.remove();
+        }
+    }
+
+    /** Displays the slot which matches the given state. */
+    private setState(state: EmbedState): void {
+        const shadow = this.shadowRoot!;
+        shadow.querySelector('slot[name="loading"]')!.toggleAttribute('hidden', state !== 'loading');
+        shadow.querySelector('slot[name="fallback"]')!.toggleAttribute('hidden', state !== 'error');
+        shadow.querySelector('slot:not([name])')!.toggleAttribute('hidden', state === 'loading');
     }
 }
 
 customElements.define('em-bed', Embed);
+
+function parseSanitizeMode(mode: string | null): SanitizeMode {
+    switch (mode ?? 'auto') {
+        case 'auto': return 'auto';
+        case 'always': return 'always';
+        case 'never': return 'never';
+        default: throw new Error(`Unknown \`sanitize="${mode}"\`.`);
+    }
+}
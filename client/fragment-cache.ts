@@ -0,0 +1,77 @@
+import { Fragment, parseDomFragment } from './dom.js';
+
+/** A parsed fragment along with the `ETag` it was served with. */
+interface CacheEntry {
+    etag: string;
+    fragment: Fragment<DocumentFragment>;
+}
+
+/** Parsed fragments, keyed by their absolute URL. */
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Number of times each URL has been invalidated. Used to avoid caching a response
+ * which was requested *before* an invalidation but received after it.
+ */
+const invalidations = new Map<string, number>();
+
+/** Options for fetching a cached fragment. */
+export interface CachedFragmentOptions {
+    /** Additional headers to send with the request. */
+    headers?: Record<string, string>;
+
+    /** Cancels the request and parsing of the fragment. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Fetches the fragment at the given URL and parses it with `parseDomFragment()`.
+ * The parsed `Fragment` is cached by URL, and subsequent calls revalidate it with
+ * the server using `If-None-Match`. If the server responds with `304 Not Modified`,
+ * the cached `Fragment` is reused without parsing anything.
+ *
+ * @throws {FragmentHttpError} When the response has an error status code.
+ */
+export async function fetchCachedFragment(
+    url: string,
+    { headers = {}, signal }: CachedFragmentOptions = {},
+): Promise<Fragment<DocumentFragment>> {
+    const key = cacheKey(url);
+    const cached = cache.get(key);
+    const invalidationsBefore = invalidations.get(key) ?? 0;
+
+    const res = await fetch(url, {
+        headers: cached ? { ...headers, 'If-None-Match': cached.etag } : headers,
+        // Skip the browser's HTTP cache, otherwise it would transparently revalidate
+        // and hide the `304` from us, requiring the fragment to be parsed again.
+        cache: 'no-store',
+        signal,
+    });
+    if (res.status === 304 && cached) return cached.fragment;
+
+    const fragment = await parseDomFragment(res, { signal });
+
+    // Only cache responses with an `ETag` which were not invalidated in the meantime.
+    const etag = res.headers.get('ETag');
+    if (etag && (invalidations.get(key) ?? 0) === invalidationsBefore) {
+        cache.set(key, { etag, fragment });
+    } else {
+        cache.delete(key);
+    }
+
+    return fragment;
+}
+
+/**
+ * Drops the cached fragment for the given URL, if any, so the next request for it
+ * is always parsed from a fresh response.
+ */
+export function invalidateCachedFragment(url: string): void {
+    const key = cacheKey(url);
+    cache.delete(key);
+    invalidations.set(key, (invalidations.get(key) ?? 0) + 1);
+}
+
+function cacheKey(url: string): string {
+    return new URL(url, location.href).href;
+}
@@ -0,0 +1,333 @@
+import { FRAGMENT_REQUEST_HEADER, loadedScriptsHeaders } from './assets.js';
+import { isPlainClick } from './clicks.js';
+import { Fragment, FragmentHttpError, parseDomFragment, streamDomFragment } from './dom.js';
+import { fetchCachedFragment } from './fragment-cache.js';
+
+/**
+ * A tiny runtime which performs fragment swaps declared with HTML attributes, so
+ * server-rendered markup can define interactions without any bespoke JavaScript.
+ * Importing this module starts the runtime for the whole document, including any
+ * open shadow roots.
+ *
+ * Supported attributes:
+ * *   `fx-get="<url>"` / `fx-post="<url>"` / `fx-delete="<url>"`: Requests a
+ *     fragment from the URL when the element is clicked, or submitted for a
+ *     `<form />`. Forms send their data as a urlencoded body for `fx-post`, or in
+ *     the query string otherwise.
+ * *   `fx-target`: Element to swap the fragment into. One of `this` (default),
+ *     `host` (shadow host of the element), `closest <selector>` (which continues
+ *     past shadow roots into their hosts) or a selector queried in the document.
+ * *   `fx-swap`: How the fragment is swapped into the target. One of `replace`
+ *     (default) to replace the target, `append` or `prepend`.
+ * *   `fx-stream`: Streams the response, inserting each top-level node as soon as
+ *     it is parsed instead of waiting for the whole fragment.
+ *
+ * Fragments are swapped in once their stylesheets, fonts and images have loaded, so
+ * they never flash unstyled. A `204 No Content` response removes the target instead
+ * of swapping anything in, such as after deleting the resource the target displays.
+ *
+ * An element only has one request in flight at a time, further triggers are
+ * ignored until it settles. An `fx-swap` event is dispatched on the document once
+ * a swap completes, or an `fx-error` event if it fails. Unless a listener cancels
+ * the `fx-error` event to handle the error itself, the server's error fragment (or
+ * a generic message) is displayed right after the trigger until it is triggered again.
+ *
+ * ```html
+ * <button fx-get="/tweets?limit=10" fx-target="#tweets" fx-swap="append">
+ *     Load more
+ * </button>
+ * ```
+ */
+
+/** How a fragment is swapped into its target element. */
+type SwapMode = 'replace' | 'append' | 'prepend';
+
+/** HTTP methods which can be declared on a trigger, along with their attributes. */
+const methodAttributes = {
+    GET: 'fx-get',
+    POST: 'fx-post',
+    DELETE: 'fx-delete',
+} as const;
+type Method = keyof typeof methodAttributes;
+
+/** Detail of the `fx-swap` event. */
+export interface FxSwapDetail {
+    /** Element which triggered the swap, may no longer be connected. */
+    trigger: Element;
+
+    /** All the nodes inserted by the swap. */
+    inserted: Node[];
+}
+
+/** Detail of the `fx-error` event. */
+export interface FxErrorDetail {
+    /** Element which triggered the swap, may no longer be connected. */
+    trigger: Element;
+
+    error: unknown;
+}
+
+/** Message displayed when a swap fails without a more specific error from the server. */
+const GENERIC_ERROR = 'Something went wrong, please try again.';
+
+/** Elements with a request currently in flight. */
+const inFlight = new WeakSet<Element>();
+
+/** Error message currently displayed for each trigger. */
+const errorMessages = new WeakMap<Element, Element>();
+
+/** Roots which are already listened to, so they don't get duplicate listeners. */
+const listenedRoots = new WeakSet<Document | ShadowRoot>();
+
+/**
+ * Discovers shadow roots as they are added to the page. `submit` events are not
+ * composed, so they must be listened to in every shadow root individually.
+ */
+const rootObserver = new MutationObserver((records) => {
+    for (const record of records) {
+        for (const added of record.addedNodes) {
+            if (added instanceof Element) listenToShadowRoots(added);
+        }
+    }
+});
+
+listen(document);
+
+/** Listens for triggers in the given root and any shadow roots within it. */
+function listen(root: Document | ShadowRoot): void {
+    if (listenedRoots.has(root)) return;
+    listenedRoots.add(root);
+
+    // `click` events are composed, so the document sees clicks in all shadow roots.
+    if (root instanceof Document) root.addEventListener('click', onClick);
+    root.addEventListener('submit', onSubmit);
+
+    rootObserver.observe(root, { childList: true, subtree: true });
+    for (const el of root.querySelectorAll('*')) {
+        if (el.shadowRoot) listen(el.shadowRoot);
+    }
+}
+
+/** Listens to the shadow roots of the given element and all its descendants. */
+function listenToShadowRoots(el: Element): void {
+    if (el.shadowRoot) listen(el.shadowRoot);
+    for (const child of el.querySelectorAll('*')) {
+        if (child.shadowRoot) listen(child.shadowRoot);
+    }
+}
+
+function onClick(evt: Event): void {
+    if (!(evt instanceof MouseEvent) || !isPlainClick(evt)) return;
+
+    // Find the closest trigger, even inside shadow roots. Forms are triggered on
+    // submit instead.
+    const trigger = evt.composedPath().find((target): target is Element =>
+        target instanceof Element && isTrigger(target));
+    if (!trigger || trigger instanceof HTMLFormElement) return;
+
+    evt.preventDefault();
+    swap(trigger);
+}
+
+function onSubmit(evt: Event): void {
+    const form = evt.target;
+    if (!(form instanceof HTMLFormElement) || !isTrigger(form)) return;
+    if (evt.defaultPrevented) return;
+
+    evt.preventDefault();
+    swap(form);
+}
+
+function isTrigger(el: Element): boolean {
+    return getMethod(el) !== undefined;
+}
+
+/** Returns the HTTP method declared by the given element, if it is a trigger. */
+function getMethod(el: Element): Method | undefined {
+    return (Object.keys(methodAttributes) as Method[])
+        .find((method) => el.hasAttribute(methodAttributes[method]));
+}
+
+/** Requests the fragment declared by the given trigger and swaps it into its target. */
+async function swap(trigger: Element): Promise<void> {
+    if (inFlight.has(trigger)) return;
+    inFlight.add(trigger);
+    trigger.setAttribute('aria-busy', 'true');
+    hideError(trigger);
+
+    try {
+        const target = resolveTarget(trigger);
+        const mode = parseSwapMode(trigger.getAttribute('fx-swap'));
+        const inserted = trigger.hasAttribute('fx-stream')
+            ? await swapStream(trigger, target, mode)
+            : await swapFragment(trigger, target, mode);
+
+        document.dispatchEvent(new CustomEvent<FxSwapDetail>('fx-swap', {
+            detail: { trigger, inserted },
+        }));
+    } catch (error) {
+        const handled = !document.dispatchEvent(new CustomEvent<FxErrorDetail>('fx-error', {
+            detail: { trigger, error },
+            cancelable: true,
+        }));
+        if (!handled) showError(trigger, error);
+    } finally {
+        inFlight.delete(trigger);
+        trigger.removeAttribute('aria-busy');
+    }
+}
+
+/** Displays the given error right after the trigger, preferring the server's rendered message. */
+function showError(trigger: Element, error: unknown): void {
+    const message = document.createElement('div');
+    message.className = 'fx-error';
+    if (error instanceof FragmentHttpError) {
+        message.append(error.fragment.cloneContent());
+    } else {
+        // Not reported by the server, such as a network failure or a bug.
+        console.error(error);
+        message.setAttribute('role', 'alert');
+        message.textContent = GENERIC_ERROR;
+    }
+
+    hideError(trigger);
+    errorMessages.set(trigger, message);
+    trigger.after(message);
+}
+
+function hideError(trigger: Element): void {
+    errorMessages.get(trigger)?.remove();
+    errorMessages.delete(trigger);
+}
+
+/** Loads the full fragment for the given trigger, then swaps it into the target. */
+async function swapFragment(trigger: Element, target: Element, mode: SwapMode): Promise<Node[]> {
+    const fragment = await fetchTriggerFragment(trigger);
+    if (!fragment) {
+        target.remove();
+        return [];
+    }
+
+    await fragment.preloadResources();
+    return insert(fragment.cloneContent(), target, mode);
+}
+
+/** Streams the fragment for the given trigger, swapping in each node as it is parsed. */
+async function swapStream(trigger: Element, target: Element, mode: SwapMode): Promise<Node[]> {
+    const res = await fetch(...buildRequest(trigger));
+    if (res.status === 204) {
+        target.remove();
+        return [];
+    }
+
+    const inserted: Node[] = [];
+    for await (const fragment of streamDomFragment(res)) {
+        await fragment.preloadResources();
+        // The first node is swapped in as requested, subsequent nodes follow it.
+        const previous = inserted[inserted.length - 1] as ChildNode | undefined;
+        inserted.push(...insert(fragment.cloneContent(), target, mode, previous));
+    }
+    return inserted;
+}
+
+/**
+ * Fetches and parses the fragment for the given trigger. `GET` requests go through
+ * the fragment cache. Resolves with `undefined` for a `204 No Content` response.
+ */
+async function fetchTriggerFragment(trigger: Element): Promise<Fragment | undefined> {
+    const [ url, init ] = buildRequest(trigger);
+    if (init.method === 'GET') {
+        return await fetchCachedFragment(url, { headers: init.headers as Record<string, string> });
+    }
+
+    const res = await fetch(url, init);
+    if (res.status === 204) return undefined;
+
+    return await parseDomFragment(res);
+}
+
+/** Builds the request declared by the given trigger. */
+function buildRequest(trigger: Element): [ string, RequestInit ] {
+    const method = getMethod(trigger)!;
+    const url = new URL(trigger.getAttribute(methodAttributes[method])!, location.href);
+    const headers = {
+        ...loadedScriptsHeaders(),
+        [FRAGMENT_REQUEST_HEADER]: 'true',
+    };
+
+    // Only forms have data to send.
+    if (!(trigger instanceof HTMLFormElement)) return [ url.href, { method, headers } ];
+
+    const data = new URLSearchParams();
+    for (const [ name, value ] of new FormData(trigger)) {
+        if (typeof value === 'string') data.append(name, value);
+    }
+
+    if (method === 'POST') return [ url.href, { method, headers, body: data } ];
+
+    for (const [ name, value ] of data) url.searchParams.append(name, value);
+    return [ url.href, { method, headers } ];
+}
+
+/** Resolves the `fx-target` of the given trigger. */
+function resolveTarget(trigger: Element): Element {
+    const selector = trigger.getAttribute('fx-target')?.trim() ?? 'this';
+
+    if (selector === 'this') return trigger;
+
+    if (selector === 'host') {
+        const root = trigger.getRootNode();
+        if (!(root instanceof ShadowRoot)) {
+            throw new Error(`\`fx-target="host"\` used outside a shadow root.`);
+        }
+        return root.host;
+    }
+
+    const target = selector.startsWith('closest ')
+        ? closestComposed(trigger, selector.slice('closest '.length))
+        : document.querySelector(selector);
+    if (!target) throw new Error(`\`fx-target="${selector}"\` did not match any element.`);
+    return target;
+}
+
+/** Like `Element.closest()`, but continues past shadow roots into their hosts. */
+function closestComposed(el: Element, selector: string): Element | null {
+    for (let current: Element | undefined = el; current; ) {
+        const match = current.closest(selector);
+        if (match) return match;
+
+        const root = current.getRootNode();
+        current = root instanceof ShadowRoot ? root.host : undefined;
+    }
+
+    return null;
+}
+
+function parseSwapMode(swap: string | null): SwapMode {
+    switch (swap ?? 'replace') {
+        case 'replace': return 'replace';
+        case 'append': return 'append';
+        case 'prepend': return 'prepend';
+        default: throw new Error(`Unknown \`fx-swap="${swap}"\`.`);
+    }
+}
+
+/**
+ * Swaps the given content into the target with the given mode, or directly after
+ * `previous` if given. Returns the inserted nodes.
+ */
+function insert(content: Node, target: Element, mode: SwapMode, previous?: ChildNode): Node[] {
+    const nodes = content instanceof DocumentFragment ? Array.from(content.childNodes) : [ content ];
+
+    if (previous) {
+        previous.after(...nodes);
+        return nodes;
+    }
+
+    switch (mode) {
+        case 'replace': target.replaceWith(...nodes); break;
+        case 'append': target.append(...nodes); break;
+        case 'prepend': target.prepend(...nodes); break;
+    }
+    return nodes;
+}
@@ -1,41 +1,148 @@
-import { parseDomFragment, streamDomFragment } from './dom.js';
+import { loadedScriptsHeaders } from './assets.js';
+import { FragmentHttpError, streamDomFragment } from './dom.js';
+import './fx.js';
+import { subscribeToTweetUpdates } from './live-updates.js';
 
-(async () => {
-    const tweetList = document.getElementById('tweets')!;
+/** Message displayed when streaming fails without a more specific error from the server. */
+const STREAM_ERROR = 'Failed to stream tweets, please try again.';
 
-    // Bind "Load more" button to load an additional, random tweet.
-    const loadMoreBtn = document.getElementById('load-more')!;
-    loadMoreBtn.addEventListener('click', async () => {
-        const tweetEl = await loadTweet(Math.floor(Math.random() * 10_000));
-        tweetList.appendChild(wrapInListItem(tweetEl));
-    });
+/**
+ * Custom element wrapping the timeline on the index page. The page may be rendered
+ * multiple times within a single document when navigating back and forth with the
+ * client-side router, while this module only executes once. So all behavior is set
+ * up when the element is connected and torn down when it is disconnected.
+ */
+class TweetTimeline extends HTMLElement {
+    private unsubscribe?: () => void;
+    private loadMoreObserver?: IntersectionObserver;
+    private streamController?: AbortController;
+    private streamError?: Element;
+
+    public connectedCallback(): void {
+        // Keep tweets on the page up to date with edits made in other tabs.
+        this.unsubscribe = subscribeToTweetUpdates();
+
+        // Each page of the timeline ends with a server-rendered "Load more" button which
+        // swaps itself out for the next page. Click it automatically whenever the
+        // sentinel at the bottom of the timeline scrolls into view. The `fx` runtime
+        // ignores clicks while a page is loading, so the same page is never loaded twice.
+        this.loadMoreObserver = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) this.loadMoreBtn()?.click();
+        });
+        this.loadMoreObserver.observe(this.sentinel);
+
+        // The first page is rendered with the page itself, and may already be the last.
+        if (!this.loadMoreBtn()) this.reachedEnd();
+
+        document.addEventListener('fx-swap', this.onSwap);
+        this.querySelector('#stream')!.addEventListener('click', this.onStream);
+    }
+
+    public disconnectedCallback(): void {
+        this.unsubscribe?.();
+        this.loadMoreObserver?.disconnect();
+        this.streamController?.abort();
+        document.removeEventListener('fx-swap', this.onSwap);
+        this.querySelector('#stream')!.removeEventListener('click', this.onStream);
+    }
 
-    // Bind "Stream 5 tweets" button to stream random tweets.
-    const streamTweetsBtn = document.getElementById('stream')!;
-    streamTweetsBtn.addEventListener('click', async () => {
-        for await (const tweet of streamTweets(5)) {
-            tweetList.appendChild(wrapInListItem(tweet));
+    private get tweetList(): HTMLElement {
+        return this.querySelector('#tweets')!;
+    }
+
+    private get sentinel(): HTMLElement {
+        return this.querySelector('#timeline-sentinel')!;
+    }
+
+    private loadMoreBtn(): HTMLButtonElement | null {
+        return this.tweetList.querySelector<HTMLButtonElement>('.load-more button');
+    }
+
+    private onSwap = (() => {
+        // The last page has no "Load more" button.
+        if (!this.loadMoreBtn()) {
+            this.reachedEnd();
+            return;
         }
-    });
 
-    // Load two tweets to start with.
-    const firstTweet = await loadTweet(1234);
-    tweetList.appendChild(wrapInListItem(firstTweet));
-    const secondTweet = await loadTweet(4321);
-    tweetList.appendChild(wrapInListItem(secondTweet));
-})();
-
-async function loadTweet(id: number): Promise<DocumentFragment> {
-    const res = await fetch(`/tweet?id=${id}`);
-    if (res.status >= 400) throw new Error(`HTTP request failed with status code: ${res.status}.`);
-    const tweetElTemplate = await parseDomFragment(res);
-    return tweetElTemplate.cloneContent();
+        // The sentinel may still be visible if the page was short, but the observer
+        // won't fire again until it leaves and re-enters the viewport. Re-observing
+        // forces a fresh check.
+        this.loadMoreObserver?.unobserve(this.sentinel);
+        this.loadMoreObserver?.observe(this.sentinel);
+    }).bind(this);
+
+    /** Stops loading more tweets and tells the user there are none left. */
+    private reachedEnd(): void {
+        this.loadMoreObserver?.disconnect();
+        this.sentinel.textContent = 'You\'ve reached the end of the timeline.';
+    }
+
+    // Stream random tweets. Starting a new stream cancels any previous stream which
+    // is still in progress.
+    private onStream = (async () => {
+        this.streamController?.abort();
+        const controller = new AbortController();
+        this.streamController = controller;
+        this.streamError?.remove();
+
+        const streamedItems: HTMLLIElement[] = [];
+        try {
+            for await (const tweet of streamTweets(5, controller.signal)) {
+                const listItem = wrapInListItem(tweet);
+                streamedItems.push(listItem);
+
+                // Keep the "Load more" button at the end of the timeline.
+                this.tweetList.insertBefore(listItem, this.tweetList.querySelector('.load-more'));
+            }
+        } catch (err) {
+            // Remove any placeholders which will never be filled.
+            for (const listItem of streamedItems) {
+                if (listItem.querySelector('stream-slot')) listItem.remove();
+            }
+
+            // Canceled, either by a newer stream or by leaving the page.
+            if (controller.signal.aborted) return;
+
+            this.showStreamError(err);
+        }
+    }).bind(this);
+
+    /** Displays the given error after the stream button, preferring the server's rendered message. */
+    private showStreamError(err: unknown): void {
+        const message = document.createElement('div');
+        message.className = 'stream-error';
+        if (err instanceof FragmentHttpError) {
+            message.append(err.fragment.cloneContent());
+        } else {
+            // Not reported by the server, such as a network failure or a bug.
+            console.error(err);
+            message.setAttribute('role', 'alert');
+            message.textContent = STREAM_ERROR;
+        }
+
+        this.streamError = message;
+        this.querySelector('#stream')!.after(message);
+    }
+}
+
+customElements.define('tweet-timeline', TweetTimeline);
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'tweet-timeline': TweetTimeline;
+    }
 }
 
-async function* streamTweets(limit: number): AsyncGenerator<Node, void, void> {
-    const res = await fetch(`/tweet/stream?limit=${limit}`);
-    if (res.status >= 400) throw new Error(`HTTP request failed with status code: ${res.status}.`);
-    for await (const node of streamDomFragment(res)) {
+async function* streamTweets(limit: number, signal: AbortSignal):
+        AsyncGenerator<Node, void, void> {
+    const res = await fetch(`/tweet/stream?limit=${limit}`, {
+        headers: loadedScriptsHeaders(),
+        signal,
+    });
+    for await (const node of streamDomFragment(res, { signal })) {
+        // Wait for styles so the tweet doesn't flash unstyled.
+        await node.preloadResources({ signal });
         yield node.cloneContent();
     }
 }
@@ -0,0 +1,56 @@
+import { parseDomFragment } from './dom.js';
+import { invalidateCachedFragment } from './fragment-cache.js';
+
+/**
+ * Subscribes to live tweet updates from the server. Whenever a tweet changes, every
+ * `<my-tweet />` element for it on the page is replaced in place with the freshly
+ * rendered tweet. Tweets currently being edited are `<my-editable-tweet />`
+ * elements instead, so they are never clobbered. Whenever a tweet is deleted, every
+ * `<my-tweet />` element for it is removed, along with its list item in a timeline.
+ * Returns a function to unsubscribe.
+ */
+export function subscribeToTweetUpdates(): () => void {
+    const source = new EventSource('/tweet/events');
+    source.addEventListener('tweet-updated', onTweetUpdated);
+    source.addEventListener('tweet-deleted', onTweetDeleted);
+    return () => { source.close(); };
+}
+
+function onTweetUpdated(evt: MessageEvent<string>): void {
+    // Nothing to report a failed update to, it only leaves that one tweet out of date.
+    updateTweet(evt.data).catch((err) => {
+        console.error('Failed to apply a live tweet update.', err);
+    });
+}
+
+/** Replaces every `<my-tweet />` on the page with the given rendered tweet of the same ID. */
+async function updateTweet(rendered: string): Promise<void> {
+    // Reuse the `Fragment` machinery by wrapping the event data in a `Response`.
+    const res = new Response(rendered, { headers: { 'Content-Type': 'text/html' } });
+    const template = await parseDomFragment(res);
+
+    const updated = template.cloneContent().querySelector('my-tweet');
+    if (!updated) throw new Error(`\`tweet-updated\` event did not contain a \`<my-tweet />\`.`);
+    const tweetId = updated.getAttribute('tweet-id')!;
+
+    // The cached copy of this tweet is now out of date.
+    invalidateCachedFragment(`/tweet?id=${tweetId}`);
+
+    for (const tweet of findTweets(tweetId)) {
+        tweet.replaceWith(template.cloneContent());
+    }
+}
+
+function onTweetDeleted(evt: MessageEvent<string>): void {
+    const tweetId = evt.data;
+    invalidateCachedFragment(`/tweet?id=${tweetId}`);
+
+    for (const tweet of findTweets(tweetId)) {
+        (tweet.closest('#tweets > li') ?? tweet).remove();
+    }
+}
+
+/** Returns every `<my-tweet />` on the page with the given ID. */
+function findTweets(tweetId: string): Element[] {
+    return Array.from(document.querySelectorAll(`my-tweet[tweet-id="${CSS.escape(tweetId)}"]`));
+}
@@ -0,0 +1,169 @@
+import { FRAGMENT_REQUEST_HEADER, loadedScriptsHeaders, PAGE_TITLE_HEADER } from './assets.js';
+import { isPlainClick } from './clicks.js';
+import { parseDomFragment } from './dom.js';
+
+/**
+ * Client-side router which navigates between same-origin pages by swapping in only
+ * their `<main />` content, rather than loading a whole new document. The server
+ * renders the same pages as full documents for regular navigations, so direct
+ * loads, reloads and browsers without JavaScript all keep working.
+ *
+ * Importing this module starts the router for the whole document. Clicks which
+ * something else already handled (such as an `fx-get` link) are left alone.
+ */
+
+/** Whether a navigation adds a new history entry or restores an existing one. */
+type NavigationType = 'push' | 'pop';
+
+/** State stored in each history entry created by the router. */
+interface HistoryState {
+    scrollY: number;
+}
+
+/** Controller of the navigation currently in progress, if any. */
+let navigationController: AbortController | undefined;
+
+/** How long scrolling must pause before the scroll position is saved. */
+const SAVE_SCROLL_DELAY_MS = 100;
+
+/** Pending save of the current scroll position, if any. */
+let saveScrollTimeout: number | undefined;
+
+/** Path and query of the page whose content is currently displayed. */
+let currentPage = pageOf(new URL(location.href));
+
+// Scroll positions are restored manually once the new page content is in place.
+// Otherwise the browser restores them before the content is loaded.
+history.scrollRestoration = 'manual';
+
+// Listen on `window` so any `document` listeners (such as the `fx` runtime) see
+// the click first and can `preventDefault()` it.
+window.addEventListener('click', onClick);
+window.addEventListener('popstate', onPopState);
+window.addEventListener('scroll', onScroll, { passive: true });
+
+// Remember where the user is on each page, so going back returns them to the same
+// spot. The history entry may already be gone by the time a `popstate` fires, so
+// this must be saved ahead of time.
+function onScroll(): void {
+    clearTimeout(saveScrollTimeout);
+    saveScrollTimeout = window.setTimeout(saveScrollPosition, SAVE_SCROLL_DELAY_MS);
+}
+
+function saveScrollPosition(): void {
+    history.replaceState({ scrollY: window.scrollY } as HistoryState, '');
+}
+
+function onClick(evt: MouseEvent): void {
+    if (!isPlainClick(evt)) return;
+
+    const link = evt.composedPath().find((target): target is HTMLAnchorElement =>
+        target instanceof HTMLAnchorElement);
+    if (!link || !isRoutable(link)) return;
+
+    evt.preventDefault();
+    navigate(new URL(link.href), 'push');
+}
+
+function onPopState(): void {
+    // Moving between hashes of the same page is handled natively.
+    const url = new URL(location.href);
+    if (pageOf(url) === currentPage && !navigationController) return;
+
+    navigate(url, 'pop');
+}
+
+/** Whether clicking the given link should be handled by the router. */
+function isRoutable(link: HTMLAnchorElement): boolean {
+    if (!link.href || link.hasAttribute('download')) return false;
+    if (link.target && link.target !== '_self') return false;
+
+    const url = new URL(link.href);
+    if (url.origin !== location.origin) return false;
+
+    // Jumping to a hash on the same page is handled natively.
+    return !url.hash || pageOf(url) !== currentPage;
+}
+
+function pageOf(url: URL): string {
+    return url.pathname + url.search;
+}
+
+/**
+ * Navigates to the given URL by swapping in its main content. Falls back to a
+ * full page load if the content can't be loaded.
+ */
+async function navigate(url: URL, type: NavigationType): Promise<void> {
+    // Only the latest navigation wins.
+    navigationController?.abort();
+    const controller = new AbortController();
+    navigationController = controller;
+
+    // Flush any pending scroll position for the page being left.
+    if (type === 'push') {
+        clearTimeout(saveScrollTimeout);
+        saveScrollPosition();
+    }
+
+    try {
+        const res = await fetch(url.href, {
+            headers: {
+                ...loadedScriptsHeaders(),
+                [FRAGMENT_REQUEST_HEADER]: 'true',
+            },
+            signal: controller.signal,
+        });
+
+        // Not a page the server knows how to render as a fragment (such as a file),
+        // let the browser handle it.
+        const title = res.headers.get(PAGE_TITLE_HEADER);
+        if (title === null) {
+            loadFullPage(url, type);
+            return;
+        }
+
+        const fragment = await parseDomFragment(res, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+
+        if (type === 'push') history.pushState({ scrollY: 0 } as HistoryState, '', url.href);
+        clearTimeout(saveScrollTimeout);
+        document.title = decodeURIComponent(title);
+        document.querySelector('main')!.replaceChildren(fragment.cloneContent());
+        currentPage = pageOf(url);
+
+        restoreScroll(url, type);
+    } catch (err) {
+        if (controller.signal.aborted) return;
+
+        console.error(err);
+        loadFullPage(url, type);
+    } finally {
+        if (navigationController === controller) navigationController = undefined;
+    }
+}
+
+/** Falls back to loading the given URL as a whole new document. */
+function loadFullPage(url: URL, type: NavigationType): void {
+    if (type === 'push') {
+        location.assign(url.href);
+    } else {
+        // The URL was already updated by the browser.
+        location.reload();
+    }
+}
+
+/** Scrolls to where the user should be on the newly swapped in page. */
+function restoreScroll(url: URL, type: NavigationType): void {
+    if (type === 'pop') {
+        const state = history.state as HistoryState | null;
+        window.scrollTo(0, state?.scrollY ?? 0);
+        return;
+    }
+
+    const target = url.hash ? document.getElementById(decodeURIComponent(url.hash.slice(1))) : null;
+    if (target) {
+        target.scrollIntoView();
+    } else {
+        window.scrollTo(0, 0);
+    }
+}
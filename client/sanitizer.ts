@@ -0,0 +1,170 @@
+/**
+ * Options for sanitizing an untrusted HTML fragment. Anything not explicitly allowed
+ * is removed.
+ */
+export interface SanitizeOptions {
+    /**
+     * Tag names of the elements to keep, along with their content. Disallowed
+     * elements are removed *with* their content. `<script />` tags are governed by
+     * `scriptOrigins` instead, and `<link />` tags are only kept as stylesheets inside
+     * a declarative shadow root.
+     */
+    elements?: readonly string[];
+
+    /**
+     * Names of the attributes to keep. A trailing `*` allows every attribute with
+     * that prefix, such as `aria-*`. Inline event handlers (`on*`) and `javascript:`
+     * URLs are always removed, even if allowed here.
+     */
+    attributes?: readonly string[];
+
+    /**
+     * Origins (such as `https://cdn.example.com`) which external scripts may be
+     * loaded from. Inline scripts are always removed. Defaults to none.
+     */
+    scriptOrigins?: readonly string[];
+}
+
+/**
+ * Elements kept by default, enough for formatted text, images and read-only tweets
+ * (including their DSD). Interactive controls such as forms are removed, so a
+ * sanitized tweet has no like, edit or delete controls.
+ */
+export const DEFAULT_ALLOWED_ELEMENTS: readonly string[] = [
+    'a', 'abbr', 'article', 'b', 'blockquote', 'br', 'caption', 'code', 'del', 'div',
+    'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+    'i', 'img', 'ins', 'li', 'link', 'mark', 'my-tweet', 'ol', 'p', 'pre', 'q', 's',
+    'section', 'slot', 'small', 'span', 'stream-slot', 'strong', 'sub', 'sup', 'table',
+    'tbody', 'td', 'template', 'tfoot', 'th', 'thead', 'time', 'tr', 'u', 'ul',
+];
+
+/** Attributes kept by default. */
+export const DEFAULT_ALLOWED_ATTRIBUTES: readonly string[] = [
+    'alt', 'aria-*', 'async', 'class', 'colspan', 'data-*', 'datetime', 'dir', 'height',
+    'href', 'id', 'lang', 'part', 'rel', 'role', 'rowspan', 'slot', 'src', 'title',
+    'type', 'width',
+
+    // Declarative shadow DOM.
+    'shadowroot', 'shadowrootclonable', 'shadowrootdelegatesfocus', 'shadowrootmode',
+
+    // Streamed slots.
+    'for-slot', 'slot-id',
+
+    // Tweets.
+    'tweet-id',
+];
+
+/**
+ * Removes anything not explicitly allowed from untrusted HTML, so it can't run code
+ * in the page. This covers disallowed elements, attributes, inline event handlers,
+ * `javascript:` URLs and scripts from unknown origins.
+ */
+export class Sanitizer {
+    private constructor(
+        private readonly elements: ReadonlySet<string>,
+        private readonly attributes: readonly string[],
+        private readonly scriptOrigins: ReadonlySet<string>,
+    ) { }
+
+    public static from({
+        elements = DEFAULT_ALLOWED_ELEMENTS,
+        attributes = DEFAULT_ALLOWED_ATTRIBUTES,
+        scriptOrigins = [],
+    }: SanitizeOptions = {}): Sanitizer {
+        return new Sanitizer(
+            new Set(elements.map((element) => element.toLowerCase())),
+            attributes.map((attribute) => attribute.toLowerCase()),
+            new Set(scriptOrigins.map((origin) => new URL(origin).origin)),
+        );
+    }
+
+    /**
+     * Sanitizes the given node and all its descendants (including template content)
+     * in place. Returns `false` if the node itself is not allowed and must be removed
+     * by the caller.
+     */
+    public sanitize(node: Node): boolean {
+        return this.sanitizeNode(node, false /* inShadowRoot */);
+    }
+
+    /**
+     * Sanitizes the given node, which is inside the content of a declarative shadow
+     * root if `inShadowRoot` is set.
+     */
+    private sanitizeNode(node: Node, inShadowRoot: boolean): boolean {
+        if (node instanceof Text || node instanceof Comment) return true;
+
+        if (node instanceof DocumentFragment) {
+            this.sanitizeChildren(node, inShadowRoot);
+            return true;
+        }
+
+        if (!(node instanceof Element) || !this.allowsElement(node, inShadowRoot)) return false;
+
+        this.sanitizeAttributes(node);
+        if (node instanceof HTMLTemplateElement) {
+            // Checked after sanitizing, in case the DSD attributes themselves are not allowed.
+            const isShadowRoot = node.hasAttribute('shadowrootmode') || node.hasAttribute('shadowroot');
+            this.sanitizeChildren(node.content, inShadowRoot || isShadowRoot);
+        }
+        this.sanitizeChildren(node, inShadowRoot);
+        return true;
+    }
+
+    private sanitizeChildren(parent: Node, inShadowRoot: boolean): void {
+        for (const child of Array.from(parent.childNodes)) {
+            if (!this.sanitizeNode(child, inShadowRoot)) child.remove();
+        }
+    }
+
+    private allowsElement(el: Element, inShadowRoot: boolean): boolean {
+        const name = el.localName;
+
+        // Scripts are only allowed from trusted origins, resolved the same way the
+        // page will when the script is executed.
+        if (name === 'script') {
+            const src = el.getAttribute('src');
+            if (!src) return false;
+            try {
+                return this.scriptOrigins.has(new URL(src, document.baseURI).origin);
+            } catch {
+                return false; // Invalid URL.
+            }
+        }
+
+        // Only stylesheets, other link types can import or prefetch arbitrary content.
+        // Stylesheets are scoped to a shadow root, anywhere else they would restyle
+        // (and could hide or overlay) the whole page.
+        if (name === 'link') {
+            return inShadowRoot && this.elements.has(name)
+                && el.getAttribute('rel')?.trim().toLowerCase() === 'stylesheet';
+        }
+
+        return this.elements.has(name);
+    }
+
+    private sanitizeAttributes(el: Element): void {
+        for (const name of el.getAttributeNames()) {
+            const value = el.getAttribute(name)!;
+            if (!this.allowsAttribute(name.toLowerCase()) || isJavaScriptUrl(value)) {
+                el.removeAttribute(name);
+            }
+        }
+    }
+
+    private allowsAttribute(name: string): boolean {
+        // Inline event handlers run code, no matter what is allowed.
+        if (name.startsWith('on')) return false;
+
+        return this.attributes.some((allowed) => allowed.endsWith('*')
+            ? name.startsWith(allowed.slice(0, -1))
+            : name === allowed);
+    }
+}
+
+/** Whether the given attribute value is a URL which runs code when followed. */
+function isJavaScriptUrl(value: string): boolean {
+    // Browsers ignore whitespace and control characters when parsing the scheme.
+    const normalized = value.replace(/[\u0000- ]/g, '').toLowerCase();
+    return normalized.startsWith('javascript:') || normalized.startsWith('vbscript:');
+}
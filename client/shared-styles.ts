@@ -0,0 +1,90 @@
+/**
+ * Whether the browser supports constructable stylesheets adopted into shadow roots.
+ * Without them, stylesheets are left as `<link />` tags.
+ */
+const supportsAdoptedStyleSheets = 'adoptedStyleSheets' in Document.prototype
+    && 'replace' in CSSStyleSheet.prototype;
+
+/** A stylesheet shared by every shadow root which links to the same URL. */
+interface SharedStyleSheet {
+    sheet: CSSStyleSheet;
+
+    /** Resolves with whether the stylesheet loaded successfully. */
+    loaded: Promise<boolean>;
+
+    /** Set once `loaded` resolves successfully, so it can be adopted synchronously. */
+    ready: boolean;
+}
+
+/** All shared stylesheets, keyed by absolute URL. */
+const sharedStyleSheets = new Map<string, SharedStyleSheet>();
+
+/**
+ * Replaces the stylesheet `<link />` tags in the given shadow root with a single
+ * `CSSStyleSheet` per URL, shared across all shadow roots through
+ * `adoptedStyleSheets`. A long timeline of tweets then holds one stylesheet in
+ * memory, rather than one per tweet.
+ *
+ * Each `<link />` is kept until its shared stylesheet has loaded, so the content
+ * is never unstyled. If the stylesheet fails to load or the browser does not
+ * support constructable stylesheets, the `<link />` is left as is.
+ */
+export function adoptSharedStyleSheets(root: ShadowRoot): void {
+    if (!supportsAdoptedStyleSheets) return;
+
+    const links = Array.from(root.querySelectorAll('link[rel~="stylesheet"][href]')) as HTMLLinkElement[];
+    for (const link of links) {
+        // Media queries and disabled stylesheets are rare enough to leave as is.
+        if (link.media || link.disabled) continue;
+
+        const shared = getSharedStyleSheet(link.href);
+        if (shared.ready) {
+            adopt(root, link, shared.sheet);
+            continue;
+        }
+
+        shared.loaded.then((loaded) => {
+            // Keep the `<link />` if the stylesheet failed or it was removed in the meantime.
+            if (!loaded || link.getRootNode() !== root) return;
+
+            adopt(root, link, shared.sheet);
+        });
+    }
+}
+
+/** Adopts the given stylesheet into the root in place of the given `<link />`. */
+function adopt(root: ShadowRoot, link: HTMLLinkElement, sheet: CSSStyleSheet): void {
+    if (!root.adoptedStyleSheets.includes(sheet)) {
+        root.adoptedStyleSheets = [ ...root.adoptedStyleSheets, sheet ];
+    }
+    link.remove();
+}
+
+/** Returns the shared stylesheet for the given URL, loading it the first time. */
+function getSharedStyleSheet(url: string): SharedStyleSheet {
+    const existing = sharedStyleSheets.get(url);
+    if (existing) return existing;
+
+    const shared: SharedStyleSheet = {
+        sheet: new CSSStyleSheet(),
+        ready: false,
+        loaded: Promise.resolve(false),
+    };
+    shared.loaded = loadStyleSheet(url, shared);
+    sharedStyleSheets.set(url, shared);
+    return shared;
+}
+
+/** Loads the stylesheet at the given URL into the shared stylesheet. */
+async function loadStyleSheet(url: string, shared: SharedStyleSheet): Promise<boolean> {
+    try {
+        const res = await fetch(url);
+        if (!res.ok) return false;
+
+        await shared.sheet.replace(await res.text());
+        shared.ready = true;
+        return true;
+    } catch {
+        return false;
+    }
+}
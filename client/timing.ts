@@ -0,0 +1,126 @@
+/** Prefix of the names of all performance entries recorded for fragments. */
+const ENTRY_PREFIX = 'fragment:';
+
+/**
+ * Query param of the page URL which records fragment timings and logs a summary
+ * of them to the console, such as `/?debug-timing`.
+ */
+export const DEBUG_TIMING_PARAM = 'debug-timing';
+
+/**
+ * Whether fragment timings are recorded at all. Off by default, the browser keeps
+ * every recorded entry for as long as the page is open.
+ */
+const enabled = new URL(location.href).searchParams.has(DEBUG_TIMING_PARAM);
+
+/** Row of the summary for fragments whose URL is not known. */
+const UNKNOWN_URL = '(unknown)';
+
+/** Time to wait for more fragment timings before logging a summary. */
+const SUMMARY_DELAY_MS = 500;
+
+/** Details attached to every performance entry recorded for a fragment. */
+export interface FragmentTimingDetail {
+    /** URL of the response the fragment was parsed from, if known. */
+    url?: string;
+}
+
+/**
+ * Marks the start of the given operation on a fragment, as a `performance.mark()`
+ * entry. Pass the returned mark to `measureFragment()` once the operation is done.
+ * Returns `undefined` when timings are not enabled.
+ */
+export function markFragment(operation: string, detail: FragmentTimingDetail): PerformanceMark | undefined {
+    if (!enabled) return undefined;
+
+    return performance.mark(`${ENTRY_PREFIX}${operation}`, { detail });
+}
+
+/**
+ * Measures the given operation on a fragment from the given start mark until now,
+ * as a `performance.measure()` entry. These show up in the devtools performance
+ * panel alongside the network requests they belong to. Does nothing when timings
+ * are not enabled.
+ */
+export function measureFragment(operation: string, start: PerformanceMark | undefined): void {
+    if (!start) return;
+
+    performance.measure(`${ENTRY_PREFIX}${operation}`, {
+        start: start.startTime,
+        detail: start.detail,
+    });
+
+    // Measures only need the start time, so the mark can go right away.
+    clearFragmentMark(start);
+}
+
+/**
+ * Clears the given start mark without measuring it, such as when the operation
+ * failed. Does nothing if the mark was already measured or timings are not enabled.
+ */
+export function clearFragmentMark(start: PerformanceMark | undefined): void {
+    if (start) performance.clearMarks(start.name);
+}
+
+/** Total time spent on each operation for a single fragment URL. */
+type FragmentSummary = Record<string, number>;
+
+/**
+ * Logs a table of fragment timings to the console, with a row for each fragment
+ * URL. Includes the server's render and total time from its `Server-Timing` header
+ * and the time to first byte, so slow fragments can be attributed to the server,
+ * the network or the client.
+ */
+function logSummary(measures: readonly PerformanceMeasure[]): void {
+    const summaries = new Map<string, FragmentSummary>();
+    for (const measure of measures) {
+        // Fragments built from synthetic responses (such as Server-Sent Events) have no URL.
+        const url = (measure.detail as FragmentTimingDetail | null)?.url || UNKNOWN_URL;
+        const summary = summaries.get(url) ?? (url !== UNKNOWN_URL ? getNetworkTimings(url) : {});
+        summaries.set(url, summary);
+
+        // Clones of the same fragment add up.
+        const operation = measure.name.slice(ENTRY_PREFIX.length);
+        summary[operation] = round((summary[operation] ?? 0) + measure.duration);
+    }
+
+    console.table(Object.fromEntries(summaries));
+
+    // Logged, so drop them from the performance timeline.
+    for (const name of new Set(measures.map((measure) => measure.name))) {
+        performance.clearMeasures(name);
+    }
+}
+
+/** Returns the server and network timings of the most recent request to the given URL. */
+function getNetworkTimings(url: string): FragmentSummary {
+    const resources = performance.getEntriesByName(new URL(url, location.href).href, 'resource');
+    const resource = resources[resources.length - 1] as PerformanceResourceTiming | undefined;
+    if (!resource) return {};
+
+    const timings: FragmentSummary = { ttfb: round(resource.responseStart - resource.requestStart) };
+    for (const { name, duration } of resource.serverTiming) {
+        timings[`server ${name}`] = duration;
+    }
+    return timings;
+}
+
+function round(ms: number): number {
+    return Math.round(ms * 10) / 10;
+}
+
+// Batch up fragment timings as they are measured and log them once things settle.
+if (enabled) {
+    let pending: PerformanceMeasure[] = [];
+    let timeout: number | undefined;
+    new PerformanceObserver((list) => {
+        const measures = list.getEntriesByType('measure') as PerformanceMeasure[];
+        pending.push(...measures.filter((measure) => measure.name.startsWith(ENTRY_PREFIX)));
+
+        window.clearTimeout(timeout);
+        timeout = window.setTimeout(() => {
+            logSummary(pending);
+            pending = [];
+        }, SUMMARY_DELAY_MS);
+    }).observe({ type: 'measure', buffered: true });
+}
@@ -0,0 +1,37 @@
+import './fx.js';
+import { FxSwapDetail } from './fx.js';
+
+/**
+ * A form to compose a new tweet. The server renders a regular `<form />` which works
+ * without JavaScript, and the `fx` runtime prepends the created tweet to the timeline.
+ * This only clears the form once the tweet is posted, ready for the next one.
+ */
+export class MyTweetComposer extends HTMLElement {
+    protected connectedCallback(): void {
+        document.addEventListener('fx-swap', this.onSwap);
+    }
+
+    protected disconnectedCallback(): void {
+        document.removeEventListener('fx-swap', this.onSwap);
+    }
+
+    private onSwap = ((evt: Event): void => {
+        const { trigger } = (evt as CustomEvent<FxSwapDetail>).detail;
+        if (trigger !== this.form) return;
+
+        this.form.reset();
+        this.form.querySelector('input')!.focus();
+    }).bind(this);
+
+    private get form(): HTMLFormElement {
+        return this.shadowRoot!.querySelector('form')!;
+    }
+}
+
+customElements.define('my-tweet-composer', MyTweetComposer);
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'my-tweet-composer': MyTweetComposer;
+    }
+}
@@ -1,32 +1,21 @@
-import { Fragment, parseDomFragment } from './dom.js';
-import { MyEditableTweet } from './editable-tweet.js';
-
-// Fetches the editable tweet template.
-const editableTweetTemplatePromise = (async (): Promise<Fragment<DocumentFragment>> => {
-    const res = await fetch('/editable-tweet');
-    if (res.status >= 400) throw new Error(`HTTP request failed with status code: ${res.status}.`);
-    return await parseDomFragment(res);
-})();
-
-// Clones an editable tweet and returns it as a `DocumentFragment`.
-async function getEditableTweet(tweetId: number, content: string):
-        Promise<MyEditableTweet> {
-    // Clone a new instance of `MyEditableTweet`.
-    const template = await editableTweetTemplatePromise;
-
-    // Preload `MyEditableTweet's` class definition so we can assign properties
-    // before appending it to the DOM.
-    await template.preloadScripts();
-
-    const editableTweet = template.cloneContent().firstElementChild as MyEditableTweet;
-    editableTweet.tweetId = tweetId;
-    editableTweet.content = content;
-    return editableTweet;
-}
-
-/** Custom element representing a tweet, simply implements an edit button. */
+import './fx.js';
+import { FxSwapDetail } from './fx.js';
+import { adoptSharedStyleSheets } from './shared-styles.js';
+
+/**
+ * Custom element representing a tweet. Editing is declared in the server-rendered
+ * markup and handled by the `fx` runtime, which swaps in an editable tweet in
+ * place. Without JavaScript, the edit link navigates to a standalone edit form.
+ * Deleting is declared the same way, but asks the user to confirm first.
+ *
+ * The like toggle is declared the same way, swapping in the re-rendered tweet
+ * with the toggle in its new state. Focus stays on the toggle across the swap.
+ *
+ * Tweets are always server-rendered, either inline with the page or in a fragment,
+ * so this only attaches to the existing markup and never fetches its own content.
+ */
 export class MyTweet extends HTMLElement {
-    private tweetId!: number;
+    public tweetId!: number;
 
     protected connectedCallback(): void {
         const idString = this.getAttribute('tweet-id');
@@ -34,23 +23,38 @@ export class MyTweet extends HTMLElement {
         this.tweetId = parseInt(idString);
         if (isNaN(this.tweetId)) throw new Error(`\`tweet-id\` attribute is not a number: "${idString}".`);
 
-        this.shadowRoot!.querySelector('button')!.addEventListener('click', this.onEdit);
+        // Tweets rendered with the page have shadow roots attached by the browser's
+        // parser rather than `Fragment`, share their stylesheets too.
+        if (this.shadowRoot) adoptSharedStyleSheets(this.shadowRoot);
+
+        // Capture the submission so this runs before the `fx` runtime sends it.
+        this.shadowRoot?.addEventListener('submit', this.onSubmit, { capture: true });
     }
 
     protected disconnectedCallback(): void {
-        this.shadowRoot!.querySelector('button')!.removeEventListener('click', this.onEdit);
+        this.shadowRoot?.removeEventListener('submit', this.onSubmit, { capture: true });
     }
 
-    private onEdit = (async (): Promise<void> => {
-        // Replace this element with a `<my-editable-tweet />` element.
-        const content = this.shadowRoot!.querySelector('span')!.textContent!;
-        const editableTweet = await getEditableTweet(this.tweetId, content);
-        this.replaceWith(editableTweet);
+    private onSubmit = ((evt: Event): void => {
+        const form = evt.target;
+        if (!(form instanceof HTMLFormElement) || !form.hasAttribute('fx-delete')) return;
+
+        if (!confirm('Delete this tweet?')) evt.preventDefault();
     }).bind(this);
 }
 
 customElements.define('my-tweet', MyTweet);
 
+// Once liked, return focus to the toggle of the re-rendered tweet. The original tweet
+// is already disconnected by the time the swap completes, so this can't be its own listener.
+document.addEventListener('fx-swap', (evt) => {
+    const { trigger, inserted } = (evt as CustomEvent<FxSwapDetail>).detail;
+    if (!(trigger instanceof HTMLFormElement) || !trigger.classList.contains('like')) return;
+
+    const tweet = inserted.find((node): node is MyTweet => node instanceof MyTweet);
+    tweet?.shadowRoot?.querySelector<HTMLElement>('form.like button')?.focus();
+});
+
 declare global {
     interface HTMLElementTagNameMap {
         'my-tweet': MyTweet;
@@ -1,5 +1,78 @@
+import { createHash, randomUUID } from 'crypto';
 import { env } from 'process';
-import express, { Request } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
+import { AssetCollector, LOADED_SCRIPTS_HEADER } from './server/assets.js';
+import { BadRequestError, handleAsync, HttpError, NotFoundError, NotImplementedError, PayloadTooLargeError } from './server/errors.js';
+import { html, SafeHtml } from './server/html.js';
+import { formatRelativeTime, negotiateLocale } from './server/locale.js';
+import { renderSlot, renderSlotContent } from './server/slots.js';
+import { startEventStream } from './server/sse.js';
+import { delay, inCompletionOrder, streamHtml, whenAborted } from './server/streaming.js';
+import { serverTiming, timeRender } from './server/timing.js';
+import { Tweet, TweetRepository } from './server/tweets.js';
+
+/**
+ * All tweets known to the server. Set `TWEETS_FILE` to persist them to a JSON
+ * file on disk, otherwise they are only held in memory and lost on restart.
+ */
+const tweetsFile = env['TWEETS_FILE'];
+const tweets = tweetsFile
+    ? TweetRepository.fromFile(tweetsFile)
+    : TweetRepository.inMemory();
+
+/**
+ * Maximum latency (in milliseconds) simulated when loading each streamed tweet, to
+ * demo out of order streaming. Set `SIMULATED_LATENCY_MS` to change it, `0` disables it.
+ */
+const simulatedLatencyMs = parseInt(env['SIMULATED_LATENCY_MS'] ?? '2000');
+if (isNaN(simulatedLatencyMs) || simulatedLatencyMs < 0) {
+    throw new Error(`\`SIMULATED_LATENCY_MS\` must be a non-negative integer, got "${env['SIMULATED_LATENCY_MS']}".`);
+}
+
+/** Maximum number of characters allowed in a tweet. */
+const MAX_TWEET_LENGTH = 280;
+
+/** Maximum number of tweets which may be streamed in a single response. */
+const MAX_STREAM_LIMIT = 100;
+
+/** Maximum number of tweets which may be requested in a single page of the timeline. */
+const MAX_PAGE_LIMIT = 50;
+
+/** Number of tweets in each page of the timeline on the index page. */
+const TIMELINE_PAGE_SIZE = 10;
+
+/** Handle which new tweets are attributed to, since the demo has no user accounts. */
+const CURRENT_USER = 'you';
+
+/**
+ * Cookie identifying each browser, so the tweets it liked can be remembered without
+ * user accounts.
+ */
+const CLIENT_ID_COOKIE = 'client-id';
+const CLIENT_ID_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1_000;
+
+/** Name of this site, as reported to oEmbed consumers. */
+const PROVIDER_NAME = 'HTML Fragments Demo';
+
+/** Default dimensions (in pixels) of an embedded tweet, reported to oEmbed consumers. */
+const OEMBED_WIDTH = 550;
+const OEMBED_HEIGHT = 120;
+
+/** Matches the path of a tweet's permalink page, capturing its ID. */
+const PERMALINK_PATH = /^\/status\/(\d+)$/;
+
+/**
+ * Request header sent by client-side scripts which expect a fragment in response.
+ * Requests without it are regular browser navigations, such as submitting a form
+ * with JavaScript disabled, and get a full-page response instead.
+ */
+const FRAGMENT_REQUEST_HEADER = 'X-Fragment-Request';
+
+/**
+ * Response header with the (URI encoded) title of a page, sent when responding to
+ * a page request with only its main content fragment.
+ */
+const PAGE_TITLE_HEADER = 'X-Page-Title';
 
 const app = express();
 
@@ -8,114 +81,766 @@ app.use(express.static('build/client/', {
     maxAge: 30_000 /* milliseconds */,
 }));
 
+// Report render and total time of every route, so slow fragments can be attributed to
+// the server or the network from the browser's devtools.
+app.use(serverTiming());
+
+/** A page of the site, rendered into the shared document layout. */
+interface Page {
+    title: string;
+    main: SafeHtml;
+
+    /** Additional page-specific content for `<head />`, only rendered with the full document. */
+    head?: SafeHtml;
+}
+
+/** Who a response is rendered for. */
+interface Viewer {
+    /** Locale to format dates and times in. */
+    locale: string;
+
+    /** ID of the viewer's browser, or `undefined` when anonymous (such as oEmbed consumers). */
+    clientId?: string;
+}
+
+/**
+ * Renders a full HTML document with the shared layout around the given page. The
+ * client-side router swaps out the content of `<main />` when navigating between pages.
+ */
+function renderDocument(assets: AssetCollector, page: Page): SafeHtml {
+    return html`
+<!DOCTYPE html>
+<html>
+    <head>
+        <title>${page.title}</title>
+        <meta charset="utf8">
+        <link rel="stylesheet" type="text/css" href="/index.css">
+        ${assets.script('/router.js')}
+        ${page.head ?? ''}
+    </head>
+    <body>
+        <header>
+            <nav>
+                <a href="/">Timeline</a>
+                <a href="/embedded.html">Also check out an embedded tweet!</a>
+            </nav>
+        </header>
+
+        <main>${page.main}</main>
+    </body>
+</html>
+    `.trim();
+}
+
+/**
+ * Renders the timeline page, which loads and streams tweets. The first page of the
+ * timeline is rendered inline, so tweets are visible on first paint without waiting
+ * for any scripts or further requests.
+ */
+function renderIndexPage(assets: AssetCollector, viewer: Viewer): Page {
+    return {
+        title: 'HTML Fragments Demo',
+        main: html`
+<tweet-timeline>
+    <h2>Hello, World!</h2>
+
+    <span>Below are some tweets!</span>
+
+    ${renderTweetComposer(assets)}
+
+    <ul id="tweets">
+        ${renderTimelinePage(assets, viewer, undefined, TIMELINE_PAGE_SIZE)}
+    </ul>
+    <div id="timeline-sentinel"></div>
+
+    <button id="stream">Stream 5 tweets</button>
+
+    ${assets.script('/index.js')}
+</tweet-timeline>
+        `.trim(),
+    };
+}
+
+/** Renders a page which embeds tweets with `<em-bed />`. */
+function renderEmbeddedPage(assets: AssetCollector): Page {
+    return {
+        title: 'HTML Fragments Embed Demo',
+        main: html`
+<h2>Embedding a Tweet</h2>
+
+<em-bed src="/tweet?id=1234">
+    <span slot="loading">Loading tweet...</span>
+    <span slot="fallback">Failed to load the tweet.</span>
+</em-bed>
+
+<h2>Streaming Tweets Lazily</h2>
+
+<em-bed src="/tweet/stream?limit=3" loading="lazy" stream>
+    <span slot="loading">Loading tweets...</span>
+    <span slot="fallback">Failed to load the tweets.</span>
+</em-bed>
+
+${assets.script('/em-bed.js')}
+        `.trim(),
+    };
+}
+
+/**
+ * Renders the permalink page of the given tweet. Includes an oEmbed discovery link,
+ * so other sites can find how to embed the tweet from its URL.
+ * https://oembed.com/#section4
+ */
+function renderTweetPage(assets: AssetCollector, viewer: Viewer, tweet: Tweet, permalink: string): Page {
+    const oembedUrl = new URL('/oembed', permalink);
+    oembedUrl.searchParams.set('url', permalink);
+    oembedUrl.searchParams.set('format', 'json');
+
+    return {
+        title: `Tweet #${tweet.id}`,
+        head: html`<link rel="alternate" type="application/json+oembed" href="${oembedUrl.href}" title="Tweet #${tweet.id}">`,
+        main: html`
+<h2>Tweet #${tweet.id}</h2>
+
+${renderTweet(assets, viewer, tweet)}
+        `.trim(),
+    };
+}
+
 /**
- * Renders a tweet with the given ID and content. Includes associated JavaScript
- * and CSS with the content inside declarative shadow DOM for isolation.
+ * Renders the given tweet with its author, its age relative to now in the viewer's
+ * locale and its like count. Includes associated JavaScript and CSS with the content
+ * inside declarative shadow DOM for isolation. Focusing the tweet focuses its first
+ * control.
+ *
+ * Deleting removes the tweet's list item in a timeline, or just the tweet elsewhere.
+ *
+ * The like toggle is pressed if the viewer liked the tweet. Set `controls` to `false`
+ * to omit the like, edit and delete controls, such as when the tweet is embedded on
+ * another site. The tweet's script only drives those controls, so it is omitted too.
+ * Otherwise it would take over clicks on the embedding page.
  */
-function renderTweet(id: number, content: string): string {
-    return `
+function renderTweet(
+    assets: AssetCollector,
+    viewer: Viewer,
+    { id, content, author, createdAt, likes }: Tweet,
+    { controls = true }: { controls?: boolean } = {},
+): SafeHtml {
+    const liked = viewer.clientId !== undefined && tweets.isLiked(id, viewer.clientId);
+    return html`
 <my-tweet tweet-id="${id}">
-    <template shadowroot="open">
-        <link rel="stylesheet" type="text/css" href="/tweet.css">
+    <template shadowrootmode="open" shadowrootdelegatesfocus>
+        <link rel="stylesheet" type="text/css" href="${assets.url('/tweet.css')}">
+        <header>
+            <a href="${assets.url(`/status/${id}`)}">@${author}</a>
+            <time datetime="${createdAt}" title="${createdAt}">${formatRelativeTime(new Date(createdAt), viewer.locale)}</time>
+        </header>
         <span>${content}</span>
-        <button>Edit</button>
+        ${controls ? html`
+        <form class="like" method="post" action="/tweet/like?id=${id}" fx-post="/tweet/like?id=${id}" fx-target="host">
+            <input type="hidden" name="liked" value="${liked ? 'false' : 'true'}" />
+            <button type="submit" aria-pressed="${liked ? 'true' : 'false'}" aria-label="Like">${liked ? '♥' : '♡'}</button>
+        </form>
+        <small class="likes">${likes}</small>
+        <a href="/editable-tweet?id=${id}" fx-get="/editable-tweet?id=${id}" fx-target="host">Edit</a>
+        <form method="post" action="/tweet/delete" fx-delete="/tweet" fx-target="closest li, :not(li) > my-tweet">
+            <input type="hidden" name="id" value="${id}" />
+            <button type="submit">Delete</button>
+        </form>
+        ` : html`<small class="likes">♥ ${likes}</small>`}
     </template>
-    <script src="/tweet.js" type="module" async></script>
+    ${controls ? assets.script('/tweet.js') : ''}
 </my-tweet>
     `.trim();
 }
 
-function renderEditableTweet(): string {
-    return `
+/** Renders a small fragment describing the given error to the user. */
+function renderError(err: HttpError): SafeHtml {
+    return html`<p class="http-error" role="alert" data-status="${err.status}">${err.message}</p>`;
+}
+
+/**
+ * Renders a page of the timeline with up to `limit` tweets after the given ID (or
+ * from the beginning) as list items. The page ends with a "Load more" button which
+ * replaces itself with the page at the next cursor, and is omitted on the last page.
+ */
+function renderTimelinePage(
+    assets: AssetCollector,
+    viewer: Viewer,
+    afterId: number | undefined,
+    limit: number,
+): SafeHtml {
+    const page = tweets.page(afterId, limit);
+    const lastTweet = page.tweets[page.tweets.length - 1];
+    const nextCursor = page.hasMore && lastTweet ? lastTweet.id : undefined;
+
+    return html`
+${page.tweets.map((tweet) => html`<li>${renderTweet(assets, viewer, tweet)}</li>\n`)}
+${nextCursor !== undefined ? renderLoadMore(`/tweets?cursor=${nextCursor}&limit=${limit}`) : ''}
+    `.trim();
+}
+
+/** Renders a list item with a button which replaces itself with the page at the given URL. */
+function renderLoadMore(url: string): SafeHtml {
+    return html`
+<li class="load-more">
+    <button fx-get="${url}" fx-target="closest li">Load more</button>
+</li>
+    `.trim();
+}
+
+/** Renders a placeholder for a tweet which is still loading. */
+function renderTweetLoading(): SafeHtml {
+    return html`<span>Loading tweet...</span>`;
+}
+
+/**
+ * Renders a form to edit the given tweet, which works even without JavaScript. If
+ * no tweet is given, the form is left blank to be filled in on the client.
+ *
+ * Includes a hidden preview of the new content and an inline error message, which
+ * the client displays while saving and if saving fails.
+ */
+function renderEditableTweet(assets: AssetCollector, tweet?: Tweet): SafeHtml {
+    return html`
 <my-editable-tweet>
-    <template shadowroot="open">
-        <input type="text" />
-        <button>Save</button>
+    <template shadowrootmode="open">
+        <link rel="stylesheet" type="text/css" href="/tweet.css">
+        <form method="post" action="/tweet/edit">
+            <input type="hidden" name="id" value="${tweet?.id ?? ''}" />
+            <input type="text" name="content" value="${tweet?.content ?? ''}" required maxlength="${MAX_TWEET_LENGTH}" />
+            <span class="preview" hidden></span>
+            <button type="submit">Save</button>
+            ${tweet ? html`<a href="/" fx-get="/tweet?id=${tweet.id}" fx-target="host">Cancel</a>` : ''}
+        </form>
+        <div class="error" role="alert" hidden></div>
     </template>
-    <script src="/editable-tweet.js" type="module" async></script>
-</my-tweet>
+    ${assets.script('/editable-tweet.js')}
+</my-editable-tweet>
+    `.trim();
+}
+
+/**
+ * Renders a form to compose a new tweet, which works even without JavaScript. The
+ * created tweet is prepended to the timeline.
+ */
+function renderTweetComposer(assets: AssetCollector): SafeHtml {
+    return html`
+<my-tweet-composer>
+    <template shadowrootmode="open">
+        <form method="post" action="/tweet" fx-post="/tweet" fx-target="#tweets" fx-swap="prepend">
+            <input type="text" name="content" placeholder="What's happening?" required maxlength="${MAX_TWEET_LENGTH}" />
+            <button type="submit">Tweet</button>
+        </form>
+    </template>
+    ${assets.script('/tweet-composer.js')}
+</my-tweet-composer>
     `.trim();
 }
 
-/** Returns a generic tweet for the given ID. */
+/** Returns the timeline page. */
+app.get('/', (req, res) => {
+    const assets = collectAssets(req, res);
+    const viewer = getViewer(req, res);
+    sendPage(req, res, assets, timeRender(res, () => renderIndexPage(assets, viewer)));
+});
+
+/** Returns the page which embeds tweets. */
+app.get('/embedded.html', (req, res) => {
+    const assets = collectAssets(req, res);
+    sendPage(req, res, assets, timeRender(res, () => renderEmbeddedPage(assets)));
+});
+
+/** Returns the permalink page of the tweet with the given ID. */
+app.get('/status/:id', (req, res) => {
+    const id = parseIntegerParam(req, 'id', { min: 0, source: 'params' });
+
+    const tweet = tweets.get(id);
+    if (!tweet) throw new NotFoundError(`Tweet #${id} does not exist.`);
+
+    const assets = collectAssets(req, res);
+    const viewer = getViewer(req, res);
+    const permalink = `${getOrigin(req)}/status/${id}`;
+    sendPage(req, res, assets, timeRender(res, () => renderTweetPage(assets, viewer, tweet, permalink)));
+});
+
+/**
+ * oEmbed provider endpoint, which returns how to embed the tweet at the permalink
+ * given by `?url` as a "rich" type. Only `?format=json` is supported.
+ * https://oembed.com/#section2
+ */
+app.get('/oembed', (req, res) => {
+    const format = getParam(req, 'format', 'query') ?? 'json';
+    if (format !== 'json') throw new NotImplementedError(`\`?format\` query param "${format}" is not supported.`);
+
+    const url = getParam(req, 'url', 'query');
+    if (!url || typeof url !== 'string') throw new BadRequestError(`\`?url\` query param is required.`);
+
+    // Only permalinks on this site can be embedded.
+    const origin = getOrigin(req);
+    let permalink: URL;
+    try {
+        permalink = new URL(url);
+    } catch {
+        throw new BadRequestError(`\`?url\` query param must be a valid URL.`);
+    }
+    const match = permalink.origin === origin ? PERMALINK_PATH.exec(permalink.pathname) : null;
+    if (!match) throw new NotFoundError(`\`${url}\` is not a tweet on this site.`);
+
+    const id = parseInt(match[1]!);
+    const tweet = tweets.get(id);
+    if (!tweet) throw new NotFoundError(`Tweet #${id} does not exist.`);
+
+    const maxWidth = req.query['maxwidth'] !== undefined
+        ? parseIntegerParam(req, 'maxwidth', { min: 1 })
+        : OEMBED_WIDTH;
+    const maxHeight = req.query['maxheight'] !== undefined
+        ? parseIntegerParam(req, 'maxheight', { min: 1 })
+        : OEMBED_HEIGHT;
+
+    // Embedded on other sites, so assets need absolute URLs and editing is not possible.
+    const assets = AssetCollector.withBaseUrl(origin);
+    const viewer: Viewer = { locale: getLocale(req, res) };
+    const rendered = timeRender(res, () => renderTweet(assets, viewer, tweet, { controls: false }));
+    res.json({
+        version: '1.0',
+        type: 'rich',
+        title: `Tweet #${tweet.id}`,
+        provider_name: PROVIDER_NAME,
+        provider_url: `${origin}/`,
+        html: rendered.toString(),
+        width: Math.min(OEMBED_WIDTH, maxWidth),
+        height: Math.min(OEMBED_HEIGHT, maxHeight),
+    });
+});
+
+/** Returns the tweet with the given ID. */
 app.get('/tweet', (req, res) => {
-    const id = parseIntegerParam(req, 'id');
+    const id = parseIdParam(req);
 
-    const content = renderTweet(id, `Hello world from tweet #${id.toString().padStart(4, '0')}.`);
-    res.contentType('text/html').end(content);
+    const tweet = tweets.get(id);
+    if (!tweet) throw new NotFoundError(`Tweet #${id} does not exist.`);
+
+    const assets = collectAssets(req, res);
+    const viewer = getViewer(req, res);
+    sendCacheableFragment(req, res, timeRender(res, () => renderTweet(assets, viewer, tweet)));
 });
 
-/** Returns a generic editable tweet component. */
-app.get('/editable-tweet', (_req, res) => {
-    res.contentType('text/html').end(renderEditableTweet());
+/**
+ * Creates a tweet with the provided content, posted as a urlencoded form. Returns the
+ * rendered tweet as a list item to prepend to the timeline, or redirects back to the
+ * timeline for a regular form submission without JavaScript.
+ */
+app.post('/tweet', express.urlencoded({ extended: false }), handleAsync(async (req, res) => {
+    const content = parseContentParam(req, 'body');
+    const tweet = await tweets.create(content, CURRENT_USER);
+
+    if (!req.get(FRAGMENT_REQUEST_HEADER)) {
+        res.redirect(303, '/');
+        return;
+    }
+
+    const assets = collectAssets(req, res);
+    const viewer = getViewer(req, res);
+    const rendered = timeRender(res, () => html`<li>${renderTweet(assets, viewer, tweet)}</li>`);
+    res.status(201).location(`/tweet?id=${tweet.id}`).contentType('text/html').end(rendered.toString());
+}));
+
+/**
+ * Deletes the tweet with the given ID. Responds with `204 No Content`, which tells
+ * the client to remove the element displaying the tweet.
+ */
+app.delete('/tweet', handleAsync(async (req, res) => {
+    const id = parseIdParam(req);
+    if (!await tweets.delete(id)) throw new NotFoundError(`Tweet #${id} does not exist.`);
+
+    res.status(204).end();
+}));
+
+/**
+ * Deletes the tweet with the given ID, posted as a urlencoded form. Browsers can't
+ * send `DELETE` requests from a form, so this supports deleting without JavaScript
+ * and redirects back to the timeline.
+ */
+app.post('/tweet/delete', express.urlencoded({ extended: false }), handleAsync(async (req, res) => {
+    const id = parseIdParam(req, 'body');
+    if (!await tweets.delete(id)) throw new NotFoundError(`Tweet #${id} does not exist.`);
+
+    res.redirect(303, '/');
+}));
+
+/**
+ * Returns a page of the timeline with up to `?limit` tweets. Starts after the given
+ * `?cursor`, or from the beginning of the timeline when omitted.
+ */
+app.get('/tweets', (req, res) => {
+    const limit = parseIntegerParam(req, 'limit', { min: 1, max: MAX_PAGE_LIMIT });
+    const afterId = req.query['cursor'] !== undefined
+        ? parseIntegerParam(req, 'cursor', { min: 0 })
+        : undefined;
+
+    const assets = collectAssets(req, res);
+    const viewer = getViewer(req, res);
+    const rendered = timeRender(res, () => renderTimelinePage(assets, viewer, afterId, limit));
+    res.contentType('text/html').end(rendered.toString());
 });
 
 /**
- * "Edits" the tweet with the given ID to use the provided content. Also returns
- * a rendered tweet with the new content.
+ * Returns an editable tweet component. Filled in with the tweet of the given `?id`,
+ * or generic if omitted. Following the edit link without JavaScript gets a full page
+ * with the form instead.
  */
-app.post('/tweet/edit', (req, res) => {
-    const id = parseIntegerParam(req, 'id');
-    const content = req.query['content'];
-    if (!content || typeof content !== 'string') throw new Error(`Editing a tweet requires \`?content\` to be set.`);
+app.get('/editable-tweet', (req, res) => {
+    let tweet: Tweet | undefined;
+    if (req.query['id'] !== undefined) {
+        const id = parseIdParam(req);
+        tweet = tweets.get(id);
+        if (!tweet) throw new NotFoundError(`Tweet #${id} does not exist.`);
+    }
 
-    res.contentType('text/html').end(renderTweet(id, content));
+    const assets = collectAssets(req, res);
+    if (!req.get(FRAGMENT_REQUEST_HEADER)) {
+        sendPage(req, res, assets, timeRender(res, () => ({
+            title: tweet ? `Edit Tweet #${tweet.id}` : 'Edit Tweet',
+            main: renderEditableTweet(assets, tweet),
+        })));
+        return;
+    }
+
+    res.vary(FRAGMENT_REQUEST_HEADER);
+    sendCacheableFragment(req, res, timeRender(res, () => renderEditableTweet(assets, tweet)));
 });
 
 /**
- * Streams randomly generated, pre-rendered tweets. Uses the `?limit` parameter to determine
- * how many tweets to return.
+ * Edits the tweet with the given ID to use the provided content, both posted as a
+ * urlencoded form. Returns a rendered tweet with the new content, or redirects back
+ * to the timeline for a regular form submission without JavaScript.
  */
-app.get('/tweet/stream', async (req, res) => {
-    const limit = parseIntegerParam(req, 'limit');
+app.post('/tweet/edit', express.urlencoded({ extended: false }), handleAsync(async (req, res) => {
+    const id = parseIdParam(req, 'body');
+    const content = parseContentParam(req, 'body');
+
+    const tweet = await tweets.update(id, content);
+    if (!tweet) throw new NotFoundError(`Tweet #${id} does not exist.`);
 
-    // Render `limit` amount of random tweet HTML.
-    const responseText = Array.from({ length: limit }, () => {
-        const id = Math.floor(Math.random() * 10_000);
-        return renderTweet(id, `Hello world from tweet #${id.toString().padStart(4, '0')}.`);
-    }).join('\n');
+    if (!req.get(FRAGMENT_REQUEST_HEADER)) {
+        res.redirect(303, '/');
+        return;
+    }
 
-    res.contentType('text/html');
+    const assets = collectAssets(req, res);
+    const viewer = getViewer(req, res);
+    const rendered = timeRender(res, () => renderTweet(assets, viewer, tweet));
+    res.contentType('text/html').end(rendered.toString());
+}));
 
-    // Stream the content in randomly sized chunks.
-    for (const chunk of chunkText(responseText)) {
-        // Short pause between each chunk.
-        await new Promise<void>((resolve) => {
-            setTimeout(() => { resolve(); }, 250);
-        });
+/**
+ * Likes the tweet with the given `?id` for this client, or unlikes it when the posted
+ * `liked` form field is `false`. Liking an already liked tweet changes nothing, so
+ * each client counts at most once. Returns the re-rendered tweet with the toggle in
+ * its new state, or redirects back to the timeline for a regular form submission
+ * without JavaScript.
+ */
+app.post('/tweet/like', express.urlencoded({ extended: false }), handleAsync(async (req, res) => {
+    const id = parseIdParam(req);
+    const liked = parseBooleanParam(req, 'liked', { source: 'body', defaultValue: true });
 
-        res.write(chunk);
+    const viewer = getViewer(req, res);
+    const tweet = await tweets.like(id, viewer.clientId, liked);
+    if (!tweet) throw new NotFoundError(`Tweet #${id} does not exist.`);
+
+    if (!req.get(FRAGMENT_REQUEST_HEADER)) {
+        res.redirect(303, '/');
+        return;
     }
 
-    res.end();
+    const assets = collectAssets(req, res);
+    const rendered = timeRender(res, () => renderTweet(assets, viewer, tweet));
+    res.contentType('text/html').end(rendered.toString());
+}));
+
+/**
+ * Pushes a `tweet-updated` Server-Sent Event with the freshly rendered tweet whenever
+ * any tweet changes, so open pages can update it in place. Pushes a `tweet-deleted`
+ * event with the ID of every deleted tweet, so open pages can remove it.
+ */
+app.get('/tweet/events', (req, res) => {
+    // Shared for the whole connection, so the client only receives each script once.
+    const assets = collectAssets(req, res);
+    const viewer = getViewer(req, res);
+
+    const send = startEventStream(res, () => {
+        unsubscribeUpdates();
+        unsubscribeDeletes();
+    });
+    const unsubscribeUpdates = tweets.onUpdate((tweet) => {
+        send('tweet-updated', renderTweet(assets, viewer, tweet).toString());
+    });
+    const unsubscribeDeletes = tweets.onDelete((id) => {
+        send('tweet-deleted', id.toString());
+    });
 });
 
-/** Chunk the given text randomly. */
-function* chunkText(text: string): Generator<string, void, void> {
-    while (text.length !== 0) {
-        if (text.length < 50) {
-            yield text;
-            text = '';
-        } else {
-            const chunkSize = Math.floor(Math.random() * text.length);
-            const chunk = text.slice(0, chunkSize);
-            const remaining = text.slice(chunkSize);
-            yield chunk;
-            text = remaining;
-        }
+/**
+ * Streams randomly selected, pre-rendered tweets. Uses the `?limit` parameter to determine
+ * how many tweets to return.
+ *
+ * A placeholder slot for each tweet is flushed immediately, then each tweet is streamed
+ * into its slot as soon as its (artificially slow, see `SIMULATED_LATENCY_MS`) data loads,
+ * in whatever order that happens. Stops loading tweets if the client disconnects.
+ */
+app.get('/tweet/stream', streamHtml(async function* (req, res, signal) {
+    const limit = parseIntegerParam(req, 'limit', { min: 1, max: MAX_STREAM_LIMIT });
+
+    // Select `limit` amount of random tweets. Tweets share an `AssetCollector`, so only
+    // the first one to render includes `tweet.js`.
+    const assets = collectAssets(req, res);
+    const viewer = getViewer(req, res);
+    const selected = tweets.random(limit);
+
+    // Flush placeholders for all the tweets right away. Headers are sent with them, so
+    // only their render time can be reported.
+    yield timeRender(res, () => html`${selected.map((_tweet, index) => html`${renderSlot(index.toString(), renderTweetLoading())}\n`)}`);
+
+    // Stream each tweet into its slot once loaded. Each chunk is followed by a newline,
+    // which lets the client know the preceding chunk is complete.
+    const aborted = whenAborted(signal);
+    const loaded = selected.map(async ({ id }, index) => {
+        const tweet = await loadTweetSlowly(id, aborted);
+        const content = tweet
+            ? renderTweet(assets, viewer, tweet)
+            : renderError(new NotFoundError(`Tweet #${id} does not exist.`));
+        return html`${renderSlotContent(index.toString(), content)}\n`;
+    });
+    yield* inCompletionOrder(loaded);
+}));
+
+/**
+ * Loads the tweet with the given ID after a random delay of up to the simulated
+ * latency, simulating a slow data source where some tweets take much longer than
+ * others. Rejects if `aborted` (see `whenAborted()`) rejects first.
+ */
+async function loadTweetSlowly(id: number, aborted: Promise<never>): Promise<Tweet | undefined> {
+    await Promise.race([ delay(Math.random() * simulatedLatencyMs), aborted ]);
+
+    return tweets.get(id);
+}
+
+/**
+ * Creates an `AssetCollector` for the given request. Also marks the response as
+ * varying by the scripts the client has loaded, since those are omitted from it.
+ */
+function collectAssets(req: Request, res: Response): AssetCollector {
+    res.vary(LOADED_SCRIPTS_HEADER);
+    return AssetCollector.fromRequest(req);
+}
+
+/**
+ * Returns who to render the given request for. Identifies the client with a cookie,
+ * which is set on the response if the client does not have one yet.
+ */
+function getViewer(req: Request, res: Response): Required<Viewer> {
+    return { locale: getLocale(req, res), clientId: getClientId(req, res) };
+}
+
+/**
+ * Returns the ID of the client which sent the given request from its cookie, or
+ * assigns it a new one. Also marks the response as varying by cookies.
+ */
+function getClientId(req: Request, res: Response): string {
+    res.vary('Cookie');
+
+    const existing = readCookie(req, CLIENT_ID_COOKIE);
+    if (existing && /^[0-9a-f-]{36}$/.test(existing)) return existing;
+
+    const clientId = randomUUID();
+    res.cookie(CLIENT_ID_COOKIE, clientId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        maxAge: CLIENT_ID_MAX_AGE_MS,
+    });
+    return clientId;
+}
+
+/** Reads the cookie with the given name from the request, if present. */
+function readCookie(req: Request, name: string): string | undefined {
+    for (const cookie of req.get('Cookie')?.split(';') ?? []) {
+        const [ key, ...value ] = cookie.trim().split('=');
+        if (key === name) return value.join('=');
     }
+
+    return undefined;
 }
 
-function parseIntegerParam(req: Request, name: string): number {
-    const idQueryParam = req.query[name];
-    if (!idQueryParam || typeof idQueryParam !== 'string') {
-        throw new Error(`\`?${name}\` query param is required.`);
+/**
+ * Returns the locale to render the given request in, negotiated from its
+ * `Accept-Language` header. Also marks the response as varying by it.
+ */
+function getLocale(req: Request, res: Response): string {
+    res.vary('Accept-Language');
+    return negotiateLocale(req);
+}
+
+/**
+ * Sends the given page as a full document for a regular navigation. When requested
+ * by the client-side router, only sends the main content fragment and the page
+ * title, so the rest of the document is left untouched.
+ */
+function sendPage(req: Request, res: Response, assets: AssetCollector, page: Page): void {
+    res.vary(FRAGMENT_REQUEST_HEADER).contentType('text/html');
+
+    if (req.get(FRAGMENT_REQUEST_HEADER)) {
+        res.setHeader(PAGE_TITLE_HEADER, encodeURIComponent(page.title));
+        res.end(page.main.toString());
+        return;
+    }
+
+    res.end(renderDocument(assets, page).toString());
+}
+
+/**
+ * Sends the given fragment with an `ETag` derived from its content. If the client
+ * already has the same content (`If-None-Match`), responds with `304 Not Modified`
+ * and no body instead.
+ */
+function sendCacheableFragment(req: Request, res: Response, fragment: SafeHtml): void {
+    const body = fragment.toString();
+    const hash = createHash('sha1').update(body).digest('base64url');
+    res.contentType('text/html').setHeader('ETag', `"${hash}"`);
+
+    // `req.fresh` compares the request's `If-None-Match` to the response's `ETag`.
+    if (req.fresh) {
+        res.status(304).end();
+        return;
+    }
+
+    res.end(body);
+}
+
+/**
+ * Where a request parameter is read from, the URL query, a urlencoded form body or
+ * the route's path parameters.
+ */
+type ParamSource = 'query' | 'body' | 'params';
+
+/** Reads the raw value of the given request parameter. */
+function getParam(req: Request, name: string, source: ParamSource): unknown {
+    switch (source) {
+        case 'query': return req.query[name];
+        case 'body': return req.body?.[name];
+        case 'params': return req.params[name];
+    }
+}
+
+/** Describes the given request parameter for use in error messages. */
+function describeParam(name: string, source: ParamSource): string {
+    switch (source) {
+        case 'query': return `\`?${name}\` query param`;
+        case 'body': return `\`${name}\` form field`;
+        case 'params': return `\`:${name}\` path param`;
     }
+}
+
+/** Returns the origin the client used to reach this server, for building absolute URLs. */
+function getOrigin(req: Request): string {
+    return `${req.protocol}://${req.get('host')}`;
+}
 
-    const id = parseInt(idQueryParam);
-    if (isNaN(id)) throw new Error(`\`?${name}\` query param must be an integer.`);
+/** Parses the `id` param of a tweet. */
+function parseIdParam(req: Request, source: ParamSource = 'query'): number {
+    return parseIntegerParam(req, 'id', { min: 0, source });
+}
+
+/**
+ * Parses an integer param with the given name, optionally within the given
+ * inclusive bounds. Throws a `BadRequestError` if it is missing or invalid.
+ */
+function parseIntegerParam(req: Request, name: string, {
+    min = Number.MIN_SAFE_INTEGER,
+    max = Number.MAX_SAFE_INTEGER,
+    source = 'query',
+}: { min?: number, max?: number, source?: ParamSource } = {}): number {
+    const param = getParam(req, name, source);
+    const description = describeParam(name, source);
+    if (!param || typeof param !== 'string') {
+        throw new BadRequestError(`${description} is required.`);
+    }
+
+    // `parseInt()` silently ignores trailing garbage (`12abc`), so validate the format first.
+    if (!/^-?\d+$/.test(param)) {
+        throw new BadRequestError(`${description} must be an integer.`);
+    }
+
+    const value = parseInt(param);
+    if (value < min) throw new BadRequestError(`${description} must be at least ${min}.`);
+    if (value > max) throw new BadRequestError(`${description} must be at most ${max}.`);
+
+    return value;
+}
+
+/**
+ * Parses a boolean param with the given name, which must be `true` or `false`.
+ * Returns the default value if it is omitted, or throws a `BadRequestError` if it
+ * is invalid.
+ */
+function parseBooleanParam(req: Request, name: string, {
+    source = 'query',
+    defaultValue,
+}: { source?: ParamSource, defaultValue: boolean }): boolean {
+    const param = getParam(req, name, source);
+    if (param === undefined) return defaultValue;
+
+    switch (param) {
+        case 'true': return true;
+        case 'false': return false;
+        default: throw new BadRequestError(`${describeParam(name, source)} must be \`true\` or \`false\`.`);
+    }
+}
+
+/** Parses the `content` param of a tweet. */
+function parseContentParam(req: Request, source: ParamSource = 'query'): string {
+    const content = getParam(req, 'content', source);
+    if (!content || typeof content !== 'string' || content.trim() === '') {
+        throw new BadRequestError(`${describeParam('content', source)} is required.`);
+    }
+
+    if (content.length > MAX_TWEET_LENGTH) {
+        throw new PayloadTooLargeError(`Tweets may not be longer than ${MAX_TWEET_LENGTH} characters.`);
+    }
+
+    return content;
+}
+
+// Render any errors as fragments so clients can display them like any other content.
+// Must be registered after all the routes.
+app.use((err: unknown, _req: Request, res: Response, next: NextFunction) => {
+    // Already streaming a response, too late to render an error, so just abort it.
+    if (res.headersSent) {
+        next(err);
+        return;
+    }
+
+    // Don't leak internal details of unexpected errors to the client. Thrown
+    // `HttpErrors` are expected (such as a `501` for an unsupported format).
+    const httpError = toHttpError(err);
+    if (httpError.status >= 500 && !(err instanceof HttpError)) console.error(err);
+
+    res.status(httpError.status).contentType('text/html').end(renderError(httpError).toString());
+});
+
+/** Converts an arbitrary error into an `HttpError` which is safe to display to the user. */
+function toHttpError(err: unknown): HttpError {
+    if (err instanceof HttpError) return err;
+
+    // Express middleware (such as body parsing) reports client errors with a `status`
+    // and marks the message as safe to show with `expose`.
+    if (err instanceof Error) {
+        const { status, expose } = err as Error & { status?: unknown, expose?: unknown };
+        if (typeof status === 'number' && status < 500 && expose === true) {
+            return new HttpError(status, err.message);
+        }
+    }
 
-    return id;
+    return new HttpError(500, 'Something went wrong, please try again later.');
 }
 
 const port = env['PORT'] || 8000;
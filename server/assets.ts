@@ -0,0 +1,58 @@
+import { Request } from 'express';
+import { html, SafeHtml } from './html.js';
+
+/**
+ * Request header listing the scripts the client has already loaded, as a
+ * comma-separated list of URL paths. The server skips rendering any of these.
+ */
+export const LOADED_SCRIPTS_HEADER = 'X-Loaded-Scripts';
+
+/**
+ * Collects the JavaScript dependencies of all the fragments rendered in a single
+ * response, so each script is emitted at most once, no matter how many fragments
+ * depend on it.
+ *
+ * Stylesheets are *not* collected, because they are linked from inside each
+ * fragment's shadow root and a single `<link />` can't style multiple shadow
+ * roots. Browsers only fetch the stylesheet once anyways.
+ */
+export class AssetCollector {
+    private constructor(
+        private readonly emitted: Set<string>,
+        private readonly baseUrl?: string,
+    ) { }
+
+    /** Creates a collector which skips any scripts the client says it has already loaded. */
+    public static fromRequest(req: Request): AssetCollector {
+        const header = req.get(LOADED_SCRIPTS_HEADER) ?? '';
+        const loaded = header.split(',')
+            .map((src) => src.trim())
+            .filter((src) => src !== '');
+        return new AssetCollector(new Set(loaded));
+    }
+
+    /**
+     * Creates a collector for markup which is displayed on other sites, so all asset
+     * URLs are absolute, resolved against the given base URL.
+     */
+    public static withBaseUrl(baseUrl: string): AssetCollector {
+        return new AssetCollector(new Set(), baseUrl);
+    }
+
+    /** Returns the URL to reference the given asset path with. */
+    public url(path: string): string {
+        return this.baseUrl ? new URL(path, this.baseUrl).href : path;
+    }
+
+    /**
+     * Declares a dependency on the given module script. Renders the `<script />`
+     * tag the first time a script is declared, and nothing for any subsequent
+     * declarations or when the client already has it.
+     */
+    public script(src: string): SafeHtml {
+        if (this.emitted.has(src)) return html``;
+        this.emitted.add(src);
+
+        return html`<script src="${this.url(src)}" type="module" async></script>`;
+    }
+}
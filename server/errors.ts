@@ -0,0 +1,58 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * An error which should be reported to the client with the given HTTP status
+ * code. The message is displayed to the user, so it must not leak any internal
+ * details.
+ */
+export class HttpError extends Error {
+    public constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/** The request was malformed, such as a missing or invalid parameter. */
+export class BadRequestError extends HttpError {
+    public constructor(message: string) {
+        super(400, message);
+        this.name = 'BadRequestError';
+    }
+}
+
+/** The requested resource does not exist. */
+export class NotFoundError extends HttpError {
+    public constructor(message: string) {
+        super(404, message);
+        this.name = 'NotFoundError';
+    }
+}
+
+/** The request included content larger than the server accepts. */
+export class PayloadTooLargeError extends HttpError {
+    public constructor(message: string) {
+        super(413, message);
+        this.name = 'PayloadTooLargeError';
+    }
+}
+
+/** The request asked for something the server does not support, such as an unknown format. */
+export class NotImplementedError extends HttpError {
+    public constructor(message: string) {
+        super(501, message);
+        this.name = 'NotImplementedError';
+    }
+}
+
+/**
+ * Wraps the given async route handler so a rejected `Promise` is forwarded to
+ * Express' error handling. Express 4 does not do this on its own and would
+ * otherwise leave the request hanging with an unhandled rejection.
+ */
+export function handleAsync(
+    handler: (req: Request, res: Response, next: NextFunction) => Promise<void>,
+): RequestHandler {
+    return (req, res, next) => {
+        handler(req, res, next).catch(next);
+    };
+}
@@ -0,0 +1,139 @@
+/**
+ * A string of HTML which is known to be safe to include in a response as is,
+ * because it was either written by the server itself or properly escaped. This
+ * is typically created by the `html` tagged template, while any arbitrary
+ * `string` is assumed to be untrusted.
+ */
+export class SafeHtml {
+    private constructor(private readonly value: string) { }
+
+    /**
+     * Trusts the given string as HTML *without* escaping it. Prefer the `html`
+     * tagged template, this is only for markup which is already known to be safe.
+     */
+    public static fromEscaped(value: string): SafeHtml {
+        return new SafeHtml(value);
+    }
+
+    /** Removes leading and trailing whitespace, which is always safe to do. */
+    public trim(): SafeHtml {
+        return new SafeHtml(this.value.trim());
+    }
+
+    public toString(): string {
+        return this.value;
+    }
+}
+
+/** Values which may be interpolated into an `html` tagged template. */
+export type HtmlValue = string | number | SafeHtml | readonly HtmlValue[];
+
+/**
+ * Tagged template which renders HTML, escaping all interpolated values by
+ * default. Strings and numbers are always escaped, while `SafeHtml` values (such
+ * as nested `html` templates) are included as is. Arrays are rendered by
+ * concatenating their items.
+ *
+ * Values interpolated inside a quoted attribute are escaped for that context, so
+ * they can't break out of the attribute. Unquoted attributes are rejected
+ * outright because they can't be escaped reliably.
+ *
+ * ```typescript
+ * const content = '<script>alert("pwned")</script>';
+ * html`<span title="${content}">${content}</span>`;
+ * // <span title="&lt;script&gt;alert(&quot;pwned&quot;)&lt;/script&gt;">&lt;script&gt;...
+ * ```
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+    // Interpolated values are always escaped so they can't change the tokenizer state,
+    // meaning only the static strings need to be scanned.
+    const tokenizer = new Tokenizer();
+    let result = tokenizer.scan(strings[0]!);
+    for (const [ index, value ] of values.entries()) {
+        const context = tokenizer.context();
+        result += context === 'attribute' ? renderAttribute(value) : renderText(value);
+        result += tokenizer.scan(strings[index + 1]!);
+    }
+
+    return SafeHtml.fromEscaped(result);
+}
+
+/** Where in the HTML document an interpolated value is being placed. */
+type Context = 'text' | 'attribute';
+
+/**
+ * Tracks just enough of the HTML tokenizer state to tell whether a value is being
+ * interpolated into text content or a quoted attribute value. This is not a complete
+ * HTML tokenizer, but is sufficient for the templates written in this server.
+ */
+class Tokenizer {
+    /** The HTML of the current open tag, or `undefined` if not in a tag. */
+    private tag?: string;
+
+    /** The quote character of the current attribute value, if in one. */
+    private quote?: string;
+
+    /** Updates the tokenizer state with the given HTML and returns it unchanged. */
+    public scan(html: string): string {
+        for (const char of html) {
+            if (this.tag === undefined) {
+                if (char === '<') this.tag = char;
+                continue;
+            }
+
+            this.tag += char;
+            if (this.quote) {
+                if (char === this.quote) this.quote = undefined;
+            } else if (char === '"' || char === '\'') {
+                this.quote = char;
+            } else if (char === '>') {
+                this.tag = undefined;
+            }
+        }
+
+        return html;
+    }
+
+    /** Returns the context of a value interpolated at the current position. */
+    public context(): Context {
+        if (this.tag === undefined) return 'text';
+        if (this.quote) return 'attribute';
+
+        if (/=\s*$/.test(this.tag)) {
+            throw new Error(`Interpolating into an unquoted attribute is not supported, add quotes around the value:\n${this.tag}`);
+        }
+
+        throw new Error(`Interpolating into a tag outside of an attribute value is not supported:\n${this.tag}`);
+    }
+}
+
+/** Renders the given value as text content, escaping anything which is not `SafeHtml`. */
+function renderText(value: HtmlValue): string {
+    if (value instanceof SafeHtml) return value.toString();
+    if (isHtmlValueArray(value)) return value.map((item) => renderText(item)).join('');
+
+    return value.toString()
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/**
+ * Renders the given value as a quoted attribute value. Even `SafeHtml` is escaped
+ * here, because markup has no meaning inside an attribute.
+ */
+function renderAttribute(value: HtmlValue): string {
+    if (isHtmlValueArray(value)) return value.map((item) => renderAttribute(item)).join('');
+
+    return value.toString()
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+// `Array.isArray()` does not narrow `readonly` arrays.
+function isHtmlValueArray(value: HtmlValue): value is readonly HtmlValue[] {
+    return Array.isArray(value);
+}
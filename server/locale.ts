@@ -0,0 +1,47 @@
+import { Request } from 'express';
+
+/** Locale used when the client does not accept any supported locale. */
+export const DEFAULT_LOCALE = 'en';
+
+/** Units used for relative times, from largest to smallest, with their length in seconds. */
+const RELATIVE_TIME_UNITS: readonly [ Intl.RelativeTimeFormatUnit, number ][] = [
+    [ 'year', 365 * 24 * 60 * 60 ],
+    [ 'month', 30 * 24 * 60 * 60 ],
+    [ 'week', 7 * 24 * 60 * 60 ],
+    [ 'day', 24 * 60 * 60 ],
+    [ 'hour', 60 * 60 ],
+    [ 'minute', 60 ],
+    [ 'second', 1 ],
+];
+
+/**
+ * Returns the client's most preferred locale from its `Accept-Language` header
+ * which is supported for formatting, or `DEFAULT_LOCALE` if there is none.
+ */
+export function negotiateLocale(req: Request): string {
+    for (const language of req.acceptsLanguages()) {
+        // `supportedLocalesOf()` throws for malformed tags (including the `*` wildcard).
+        try {
+            const [ supported ] = Intl.RelativeTimeFormat.supportedLocalesOf(language);
+            if (supported) return supported;
+        } catch {
+            continue;
+        }
+    }
+
+    return DEFAULT_LOCALE;
+}
+
+/**
+ * Formats the given time relative to now in the given locale, using the largest
+ * unit which fits, such as "5 minutes ago" or "yesterday".
+ */
+export function formatRelativeTime(time: Date, locale: string, now = new Date()): string {
+    const format = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+    const seconds = (time.getTime() - now.getTime()) / 1_000;
+
+    const [ unit, unitSeconds ] = RELATIVE_TIME_UNITS
+        .find(([ , unitSeconds ]) => Math.abs(seconds) >= unitSeconds)
+        ?? RELATIVE_TIME_UNITS.at(-1)!;
+    return format.format(Math.round(seconds / unitSeconds), unit);
+}
@@ -0,0 +1,17 @@
+import { html, SafeHtml } from './html.js';
+
+/**
+ * Renders a placeholder for content which will be streamed later in the same
+ * response, potentially out of order. The fallback is displayed until then.
+ */
+export function renderSlot(id: string, fallback: SafeHtml): SafeHtml {
+    return html`<stream-slot slot-id="${id}">${fallback}</stream-slot>`;
+}
+
+/**
+ * Renders the content for a slot previously rendered with `renderSlot()` in the
+ * same response. The client swaps this content in place of the placeholder.
+ */
+export function renderSlotContent(id: string, content: SafeHtml): SafeHtml {
+    return html`<template for-slot="${id}">${content}</template>`;
+}
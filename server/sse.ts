@@ -0,0 +1,32 @@
+import { Response } from 'express';
+
+/** Interval between keep-alive comments, so idle connections aren't dropped by proxies. */
+const KEEP_ALIVE_INTERVAL_MS = 30_000;
+
+/**
+ * Starts a Server-Sent Events stream on the given response. Returns a function to
+ * send an event with the given name and data. The stream is kept alive until the
+ * client disconnects, at which point `onClose` is called.
+ */
+export function startEventStream(res: Response, onClose: () => void):
+        (event: string, data: string) => void {
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+    });
+    res.flushHeaders();
+
+    const keepAlive = setInterval(() => { res.write(': keep-alive\n\n'); }, KEEP_ALIVE_INTERVAL_MS);
+    res.on('close', () => {
+        clearInterval(keepAlive);
+        onClose();
+    });
+
+    return (event, data) => {
+        // Each line of the data needs its own `data:` field, the client joins them back
+        // together with newlines.
+        const dataFields = data.split(/\r\n|\r|\n/).map((line) => `data: ${line}\n`).join('');
+        res.write(`event: ${event}\n${dataFields}\n`);
+    };
+}
@@ -0,0 +1,118 @@
+import { once } from 'events';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { SafeHtml } from './html.js';
+
+/**
+ * A route handler which renders its response as a stream of HTML fragments. The
+ * given signal is aborted once the client disconnects, after which nothing more
+ * is written, so the handler can stop any outstanding work.
+ */
+export type StreamingHandler =
+    (req: Request, res: Response, signal: AbortSignal) => AsyncIterable<SafeHtml>;
+
+/**
+ * Wraps the given streaming handler as an Express route handler. Each fragment the
+ * handler yields is written to the response as soon as it is ready, waiting for the
+ * response to `drain` whenever it reports backpressure. Rendering stops when the
+ * client disconnects.
+ *
+ * Errors thrown before the first fragment is written are forwarded to Express' error
+ * handling, so they can still be rendered with an error status. Later errors abort
+ * the response.
+ */
+export function streamHtml(handler: StreamingHandler): RequestHandler {
+    return (req, res, next) => {
+        const controller = new AbortController();
+        res.on('close', () => { controller.abort(); });
+
+        writeStream(handler(req, res, controller.signal), res, controller.signal)
+            .catch((err) => { onStreamError(err, controller.signal, next); });
+    };
+}
+
+/** Writes each fragment to the response, respecting backpressure, then ends it. */
+async function writeStream(fragments: AsyncIterable<SafeHtml>, res: Response, signal: AbortSignal):
+        Promise<void> {
+    res.contentType('text/html');
+
+    // Returning from the loop early calls the iterator's `return()`, so a generator's
+    // `finally` blocks still run when the client disconnects.
+    for await (const fragment of fragments) {
+        if (signal.aborted) return;
+
+        if (!res.write(fragment.toString())) {
+            await once(res, 'drain', { signal });
+        }
+    }
+
+    res.end();
+}
+
+function onStreamError(err: unknown, signal: AbortSignal, next: NextFunction): void {
+    // Client went away, nobody is left to report the error to.
+    if (signal.aborted) return;
+
+    next(err);
+}
+
+/**
+ * Yields the result of each of the given `Promises` in the order they settle, rather
+ * than the order they were given. Rejects as soon as any of them does.
+ */
+export async function* inCompletionOrder<T>(promises: Iterable<Promise<T>>):
+        AsyncGenerator<T, void, void> {
+    const remaining = new Map(Array.from(promises, (promise, index) => [
+        index,
+        promise.then((value) => ({ index, value })),
+    ]));
+
+    while (remaining.size > 0) {
+        const { index, value } = await Promise.race(remaining.values());
+        remaining.delete(index);
+        yield value;
+    }
+}
+
+/**
+ * Returns a `Promise` which rejects with the abort reason once the given signal is
+ * aborted, and otherwise never settles. Race many concurrent operations against it
+ * to cancel them all with a single `abort` listener, rather than one listener each,
+ * which Node reports as a memory leak beyond 10 listeners.
+ */
+export function whenAborted(signal: AbortSignal): Promise<never> {
+    const aborted = new Promise<never>((_resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        signal.addEventListener('abort', () => { reject(signal.reason); }, { once: true });
+    });
+
+    // Only racing operations care about the rejection, don't report it as unhandled.
+    aborted.catch(() => {});
+    return aborted;
+}
+
+/**
+ * Resolves after the given number of milliseconds, or rejects with the abort reason
+ * as soon as the given signal is aborted.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(signal!.reason);
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
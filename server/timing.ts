@@ -0,0 +1,42 @@
+import { performance } from 'perf_hooks';
+import { RequestHandler, Response } from 'express';
+
+/**
+ * Middleware which reports the total time spent handling each request in its
+ * `Server-Timing` header, from the request arriving until the response headers are
+ * written. For streamed responses, that is the time to the first byte.
+ * https://developer.mozilla.org/docs/Web/HTTP/Headers/Server-Timing
+ */
+export function serverTiming(): RequestHandler {
+    return (_req, res, next) => {
+        const start = performance.now();
+
+        // Node writes the headers through `writeHead()`, even when called implicitly by
+        // the first `write()` or `end()`, so this is the last chance to add to them.
+        const writeHead = res.writeHead as (...args: unknown[]) => Response;
+        res.writeHead = function (this: Response, ...args: unknown[]): Response {
+            appendServerTiming(this, 'total', performance.now() - start);
+            return writeHead.apply(this, args);
+        } as Response['writeHead'];
+
+        next();
+    };
+}
+
+/**
+ * Calls the given render function and reports how long it took as `render` in the
+ * response's `Server-Timing` header. Returns the rendered result.
+ */
+export function timeRender<T>(res: Response, render: () => T): T {
+    const start = performance.now();
+    try {
+        return render();
+    } finally {
+        appendServerTiming(res, 'render', performance.now() - start);
+    }
+}
+
+/** Appends a metric with the given duration (in milliseconds) to the `Server-Timing` header. */
+function appendServerTiming(res: Response, metric: string, durationMs: number): void {
+    res.append('Server-Timing', `${metric};dur=${durationMs.toFixed(1)}`);
+}
@@ -0,0 +1,287 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+
+/** A single tweet as stored by the server. */
+export interface Tweet {
+    id: number;
+    content: string;
+
+    /** Handle of the user who posted the tweet, without the leading `@`. */
+    author: string;
+
+    /** When the tweet was posted, as an ISO 8601 string. */
+    createdAt: string;
+
+    /** Number of times the tweet has been liked. */
+    likes: number;
+}
+
+/** Number of tweets generated when seeding a new repository. */
+const SEED_COUNT = 10_000;
+
+/** Handles which seeded tweets are attributed to, in rotation. */
+const SEED_AUTHORS = [ 'alice', 'bob', 'carol', 'dave', 'erin' ];
+
+/** Time between consecutive seeded tweets. */
+const SEED_INTERVAL_MS = 60 * 1_000;
+
+/** The JSON format stored on disk. */
+interface StoredTweets {
+    /** ID of the next tweet to be created. IDs are never reused, even once deleted. */
+    nextId: number;
+    tweets: Tweet[];
+
+    /** IDs of the tweets liked by each client, keyed by client ID. */
+    likedTweets: Record<string, number[]>;
+}
+
+/**
+ * Stores all tweets known to the server. Tweets are always held in memory, but
+ * can optionally be backed by a JSON file on local disk so edits persist across
+ * server restarts.
+ */
+export class TweetRepository {
+    /** Chain of pending disk writes, used to serialize them in order. */
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    /** Listeners to notify whenever a tweet is updated. */
+    private readonly updateListeners = new Set<(tweet: Tweet) => void>();
+
+    /** Listeners to notify with the ID of every deleted tweet. */
+    private readonly deleteListeners = new Set<(id: number) => void>();
+
+    /**
+     * IDs of all the tweets, in ascending order. New tweets always get the highest ID,
+     * so they are appended.
+     */
+    private readonly ids: number[];
+
+    private constructor(
+        private readonly tweets: Map<number, Tweet>,
+        private nextId: number,
+        private readonly likedTweets: Map<string, Set<number>>,
+        private readonly filePath?: string,
+    ) {
+        this.ids = Array.from(tweets.keys()).sort((a, b) => a - b);
+    }
+
+    /** Creates a repository held purely in memory and seeded with generic tweets. */
+    public static inMemory(): TweetRepository {
+        return new TweetRepository(seedTweets(), SEED_COUNT, new Map());
+    }
+
+    /**
+     * Creates a repository backed by the JSON file at the given path. If the file
+     * does not exist yet, it is created and seeded with generic tweets.
+     *
+     * The file is read synchronously because this is expected to be called once
+     * on startup, before the server accepts any requests.
+     */
+    public static fromFile(filePath: string): TweetRepository {
+        if (!existsSync(filePath)) {
+            const tweets = seedTweets();
+            const likedTweets = new Map<string, Set<number>>();
+            writeFileSync(filePath, serialize(tweets, SEED_COUNT, likedTweets), 'utf8');
+            return new TweetRepository(tweets, SEED_COUNT, likedTweets, filePath);
+        }
+
+        const stored = JSON.parse(readFileSync(filePath, 'utf8')) as StoredTweets;
+        const tweets = new Map(stored.tweets.map((tweet) => [ tweet.id, tweet ]));
+        const likedTweets = new Map(Object.entries(stored.likedTweets)
+            .map(([ clientId, ids ]) => [ clientId, new Set(ids) ]));
+        return new TweetRepository(tweets, stored.nextId, likedTweets, filePath);
+    }
+
+    /** Returns the tweet with the given ID, or `undefined` if it does not exist. */
+    public get(id: number): Tweet | undefined {
+        return this.tweets.get(id);
+    }
+
+    /**
+     * Returns `count` randomly selected tweets, which may repeat. Returns fewer if the
+     * repository does not have that many tweets.
+     */
+    public random(count: number): Tweet[] {
+        return Array.from({ length: Math.min(count, this.ids.length) }, () => {
+            return this.tweets.get(this.ids[Math.floor(Math.random() * this.ids.length)]!)!;
+        });
+    }
+
+    /**
+     * Returns up to `limit` tweets, newest (highest ID) first, starting after the
+     * tweet with the given ID in that order (or from the newest when `undefined`).
+     * Also returns whether there are more tweets after this page.
+     *
+     * New tweets always get a higher ID, so they are inserted at the start of the
+     * timeline and never shift the tweets after an existing cursor.
+     */
+    public page(afterId: number | undefined, limit: number): { tweets: Tweet[], hasMore: boolean } {
+        // Everything before the cursor's position in the index is older than it.
+        const end = afterId === undefined ? this.ids.length : this.indexOf(afterId);
+        const start = Math.max(0, end - limit);
+        return {
+            tweets: this.ids.slice(start, end).reverse().map((id) => this.tweets.get(id)!),
+            hasMore: start > 0,
+        };
+    }
+
+    /**
+     * Updates the content of the tweet with the given ID and persists the change.
+     * Resolves with the updated tweet, or `undefined` if it does not exist.
+     */
+    public async update(id: number, content: string): Promise<Tweet | undefined> {
+        const existing = this.tweets.get(id);
+        if (!existing) return undefined;
+
+        const updated: Tweet = { ...existing, content };
+        this.tweets.set(id, updated);
+        await this.persist();
+
+        for (const listener of this.updateListeners) listener(updated);
+
+        return updated;
+    }
+
+    /** Returns whether the given client liked the tweet with the given ID. */
+    public isLiked(id: number, clientId: string): boolean {
+        return this.likedTweets.get(clientId)?.has(id) ?? false;
+    }
+
+    /**
+     * Likes (or unlikes) the tweet with the given ID for the given client and persists
+     * the change. Each client counts at most once, so liking an already liked tweet
+     * (or unliking one which isn't) leaves it as is. Resolves with the tweet, or
+     * `undefined` if it does not exist.
+     */
+    public async like(id: number, clientId: string, liked: boolean): Promise<Tweet | undefined> {
+        const existing = this.tweets.get(id);
+        if (!existing) return undefined;
+        if (this.isLiked(id, clientId) === liked) return existing;
+
+        const likedIds = this.likedTweets.get(clientId) ?? new Set();
+        if (liked) {
+            likedIds.add(id);
+        } else {
+            likedIds.delete(id);
+        }
+        this.likedTweets.set(clientId, likedIds);
+
+        const updated: Tweet = { ...existing, likes: Math.max(0, existing.likes + (liked ? 1 : -1)) };
+        this.tweets.set(id, updated);
+        await this.persist();
+
+        for (const listener of this.updateListeners) listener(updated);
+
+        return updated;
+    }
+
+    /**
+     * Creates a new tweet with the given content and author, posted now, and persists
+     * it. Resolves with the new tweet.
+     */
+    public async create(content: string, author: string): Promise<Tweet> {
+        const id = this.nextId++;
+        const tweet: Tweet = { id, content, author, createdAt: new Date().toISOString(), likes: 0 };
+        this.tweets.set(id, tweet);
+        this.ids.push(id);
+        await this.persist();
+
+        return tweet;
+    }
+
+    /**
+     * Deletes the tweet with the given ID and persists the change. Resolves with
+     * whether the tweet existed.
+     */
+    public async delete(id: number): Promise<boolean> {
+        if (!this.tweets.delete(id)) return false;
+        this.ids.splice(this.indexOf(id), 1);
+        await this.persist();
+
+        for (const listener of this.deleteListeners) listener(id);
+
+        return true;
+    }
+
+    /**
+     * Calls the given listener with every tweet updated from now on, after the update
+     * has been persisted. Returns a function to unsubscribe the listener.
+     */
+    public onUpdate(listener: (tweet: Tweet) => void): () => void {
+        this.updateListeners.add(listener);
+        return () => { this.updateListeners.delete(listener); };
+    }
+
+    /**
+     * Calls the given listener with the ID of every tweet deleted from now on, after
+     * the deletion has been persisted. Returns a function to unsubscribe the listener.
+     */
+    public onDelete(listener: (id: number) => void): () => void {
+        this.deleteListeners.add(listener);
+        return () => { this.deleteListeners.delete(listener); };
+    }
+
+    /**
+     * Returns the position of the given ID in the ordered index, or where it would be
+     * inserted if it does not exist.
+     */
+    private indexOf(id: number): number {
+        let low = 0;
+        let high = this.ids.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (this.ids[mid]! < id) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    }
+
+    /**
+     * Writes the current state of the repository to disk, if backed by a file.
+     * Writes are serialized so an older snapshot never overwrites a newer one, and
+     * go through a temporary file so a crash mid-write cannot corrupt the data.
+     */
+    private persist(): Promise<void> {
+        const filePath = this.filePath;
+        if (!filePath) return Promise.resolve();
+
+        const snapshot = serialize(this.tweets, this.nextId, this.likedTweets);
+        this.pendingWrite = this.pendingWrite.catch(() => {}).then(async () => {
+            const tmpPath = `${filePath}.tmp`;
+            await writeFile(tmpPath, snapshot, 'utf8');
+            await rename(tmpPath, filePath);
+        });
+
+        return this.pendingWrite;
+    }
+}
+
+/** Serializes the given tweets into the JSON format stored on disk. */
+function serialize(tweets: Map<number, Tweet>, nextId: number, likedTweets: Map<string, Set<number>>):
+        string {
+    const sorted = Array.from(tweets.values()).sort((a, b) => a.id - b.id);
+    const stored: StoredTweets = {
+        nextId,
+        tweets: sorted,
+        likedTweets: Object.fromEntries(Array.from(likedTweets, ([ clientId, ids ]) => [ clientId, Array.from(ids) ])),
+    };
+    return JSON.stringify(stored, null, 2);
+}
+
+/**
+ * Generates the default set of tweets for a new repository, posted a minute apart
+ * up until now.
+ */
+function seedTweets(): Map<number, Tweet> {
+    const now = Date.now();
+    return new Map(Array.from({ length: SEED_COUNT }, (_, id) => [ id, {
+        id,
+        content: `Hello world from tweet #${id.toString().padStart(4, '0')}.`,
+        author: SEED_AUTHORS[id % SEED_AUTHORS.length],
+        createdAt: new Date(now - (SEED_COUNT - id) * SEED_INTERVAL_MS).toISOString(),
+        likes: (id * 7) % 50,
+    } ]));
+}